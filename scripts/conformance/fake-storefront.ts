@@ -0,0 +1,191 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * Product as the fake storefront knows it, before a platform fixture
+ * renders it in the platform's own format
+ */
+export interface FakeProduct {
+  id: number;
+  name: string;
+  description: string;
+  images: string[];
+  published: boolean;
+  categories: string[];
+  colors: string[];
+}
+
+export interface StorefrontRequest {
+  method: string;
+  url: URL;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StorefrontResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Serves one platform's API from the fake catalog
+ */
+export interface StorefrontPlatform {
+  isAuthorized(request: StorefrontRequest): boolean;
+  // Unknown routes answer 404
+  handle(
+    request: StorefrontRequest,
+    catalog: FakeProduct[]
+  ): StorefrontResponse | null;
+}
+
+/**
+ * Misbehaviour applied to requests, e.g. { status: 500, skipRequests: 2,
+ * times: 1 } fails the third request once
+ */
+export interface StorefrontFault {
+  status?: number; // answer with this error status instead
+  malformed?: boolean; // answer 200 with the body cut in half
+  delayMs?: number; // wait before answering
+  skipRequests?: number; // requests let through before the fault starts
+  times?: number; // requests affected, all by default
+}
+
+/**
+ * Deterministic catalog. Ids have gaps so off-by-one resumes show up, and
+ * every seventh product is unpublished.
+ */
+export function makeCatalog(size: number): FakeProduct[] {
+  return Array.from({ length: size }, (_, index) => {
+    const id = 1000 + index * 3;
+    return {
+      id,
+      name: `Conformance product ${id}`,
+      description: `Description of product ${id} & friends`,
+      images: Array.from(
+        { length: (index % 3) + 1 },
+        (_, image) => `https://images.conformance.test/${id}/${image}.jpg`
+      ),
+      published: index % 7 !== 3,
+      categories: index % 2 === 0 ? ["Dresses"] : ["Tops", "Sale"],
+      colors: index % 2 === 0 ? ["Red"] : ["Blue", "White"],
+    };
+  });
+}
+
+/**
+ * Local HTTP server standing in for a merchant's storefront API
+ */
+export class FakeStorefront {
+  readonly requests: StorefrontRequest[] = [];
+  fault: StorefrontFault | null = null;
+  private server: Server | null = null;
+  private faultedRequests = 0;
+
+  constructor(
+    private platform: StorefrontPlatform,
+    public catalog: FakeProduct[]
+  ) {}
+
+  /**
+   * Starts listening on a free local port and returns the base URL
+   */
+  async start(): Promise<string> {
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        const request: StorefrontRequest = {
+          method: req.method ?? "GET",
+          url: new URL(req.url ?? "/", "http://storefront.local"),
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString("utf8"),
+        };
+
+        void this.respond(request).then((response) => {
+          res.writeHead(response.status, {
+            "Content-Type": "application/json",
+            ...response.headers,
+          });
+          res.end(response.body);
+        });
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    this.server = server;
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Clears recorded requests and the fault between checks
+   */
+  reset(fault: StorefrontFault | null = null): void {
+    this.requests.length = 0;
+    this.fault = fault;
+    this.faultedRequests = 0;
+  }
+
+  private async respond(
+    request: StorefrontRequest
+  ): Promise<StorefrontResponse> {
+    this.requests.push(request);
+    const fault = this.takeFault();
+
+    if (fault?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault?.status) {
+      return {
+        status: fault.status,
+        // Clients that honour Retry-After retry immediately
+        headers: { "Retry-After": "0" },
+        body: JSON.stringify({ error: `Injected ${fault.status}` }),
+      };
+    }
+
+    if (!this.platform.isAuthorized(request)) {
+      return {
+        status: 401,
+        body: JSON.stringify({ error: "Invalid credentials" }),
+      };
+    }
+
+    const response = this.platform.handle(request, this.catalog) ?? {
+      status: 404,
+      body: JSON.stringify({ error: "Not found" }),
+    };
+    return fault?.malformed
+      ? {
+          ...response,
+          body: response.body.slice(0, Math.floor(response.body.length / 2)),
+        }
+      : response;
+  }
+
+  private takeFault(): StorefrontFault | null {
+    if (!this.fault) return null;
+    if (this.requests.length <= (this.fault.skipRequests ?? 0)) return null;
+    if (
+      this.fault.times !== undefined &&
+      this.faultedRequests >= this.fault.times
+    ) {
+      return null;
+    }
+
+    this.faultedRequests++;
+    return this.fault;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Plugin modules open the database pool when they are imported, which
+ * needs DATABASE_URL. postgres.js only connects on the first query and the
+ * kit never sends one, so a placeholder keeps it off any real database.
+ * Import this before anything from src/.
+ */
+process.env.DATABASE_URL = "postgres://conformance@127.0.0.1:1/conformance";
@@ -0,0 +1,275 @@
+import type { App } from "../../src/app/lib/conversion/plugin_class";
+import { GoogleMerchantPlugin } from "../../src/app/lib/conversion/google_merchant";
+import { ShopcadaPlugin } from "../../src/app/lib/conversion/shopcada";
+import { ShopifyPlugin } from "../../src/app/lib/conversion/shopify";
+import { WooCommercePlugin } from "../../src/app/lib/conversion/woocommerce";
+import type {
+  FakeProduct,
+  StorefrontPlatform,
+  StorefrontResponse,
+} from "./fake-storefront";
+
+/**
+ * How to point a plugin at the fake storefront. Requests to `origin` are
+ * routed to the local server, so plugins keep building their real URLs.
+ */
+export interface PlatformFixture {
+  origin: string;
+  platform: StorefrontPlatform;
+  // A plugin configured for origin, without a database row
+  createPlugin(origin: string): App;
+}
+
+// Plugins are never saved, the app id only shows up in their logs
+const CONFORMANCE_APP_ID = 0;
+
+const SHOPCADA_API_KEY = "conformance-shopcada-key";
+const SHOPIFY_ACCESS_TOKEN = "shpat_conformance";
+const WOOCOMMERCE_KEY = "ck_conformance";
+const WOOCOMMERCE_SECRET = "cs_conformance";
+
+function json(body: unknown, headers?: Record<string, string>) {
+  return { status: 200, headers, body: JSON.stringify(body) };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function findProduct(catalog: FakeProduct[], id: string | undefined) {
+  return catalog.find((product) => String(product.id) === id) ?? null;
+}
+
+const shopcada: PlatformFixture = {
+  origin: "https://storefront.conformance.test",
+  platform: {
+    isAuthorized: (request) =>
+      request.headers["x-shopcada-api-key"] === SHOPCADA_API_KEY,
+    handle(request, catalog): StorefrontResponse | null {
+      const toShopcada = (product: FakeProduct) => ({
+        product_id: product.id,
+        name: product.name,
+        description: product.description,
+        images: product.images,
+        published: product.published,
+        categories: product.categories.map((name) => ({ name })),
+        colors: product.colors.map((name) => ({ name })),
+      });
+
+      const single = /^\/api\/v3\/products\/(\d+)$/.exec(request.url.pathname);
+      if (single) {
+        const product = findProduct(catalog, single[1]);
+        return product ? json(toShopcada(product)) : null;
+      }
+
+      if (request.url.pathname !== "/api/v3/products") return null;
+      const page = parseInt(request.url.searchParams.get("page") ?? "0") || 0;
+      const limit = Math.min(
+        parseInt(request.url.searchParams.get("limit") ?? "20") || 20,
+        100
+      );
+      return json({
+        products: catalog
+          .slice(page * limit, (page + 1) * limit)
+          .map(toShopcada),
+        meta: { count: catalog.length, page, limit },
+      });
+    },
+  },
+  createPlugin(origin) {
+    const plugin = new ShopcadaPlugin(String(CONFORMANCE_APP_ID));
+    plugin.configure({
+      appId: CONFORMANCE_APP_ID,
+      apiHostname: origin,
+      apiKey: SHOPCADA_API_KEY,
+      pageSize: 20,
+    });
+    return plugin;
+  },
+};
+
+const shopify: PlatformFixture = {
+  origin: "https://conformance.myshopify.com",
+  platform: {
+    isAuthorized: (request) =>
+      request.headers["x-shopify-access-token"] === SHOPIFY_ACCESS_TOKEN,
+    handle(request, catalog): StorefrontResponse | null {
+      if (!/^\/admin\/api\/[\w-]+\/graphql\.json$/.test(request.url.pathname)) {
+        return null;
+      }
+
+      const toShopify = (product: FakeProduct) => ({
+        legacyResourceId: String(product.id),
+        title: product.name,
+        description: product.description,
+        status: "ACTIVE",
+        publishedAt: product.published ? "2025-01-01T00:00:00Z" : null,
+        productType: product.categories[0] ?? null,
+        vendor: "Conformance",
+        tags: product.colors,
+        images: { nodes: product.images.map((url) => ({ url })) },
+      });
+
+      const { query, variables } = JSON.parse(request.body) as {
+        query: string;
+        variables: {
+          id?: string;
+          query?: string;
+          after?: string | null;
+          first?: number;
+        };
+      };
+
+      if (/\bproduct\(id:/.test(query)) {
+        const id = String(variables.id).split("/").pop();
+        const product = findProduct(catalog, id);
+        return json({ data: { product: product ? toShopify(product) : null } });
+      }
+
+      // Cursors are positions in the filtered list
+      const afterId = /id:>(\d+)/.exec(variables.query ?? "")?.[1];
+      const products = afterId
+        ? catalog.filter((product) => product.id > Number(afterId))
+        : catalog;
+      const start = variables.after ? Number(variables.after) : 0;
+      const first = Number(variables.first ?? 50);
+      const nodes = products.slice(start, start + first);
+      return json({
+        data: {
+          products: {
+            pageInfo: {
+              hasNextPage: start + first < products.length,
+              endCursor: String(start + nodes.length),
+            },
+            nodes: nodes.map(toShopify),
+          },
+        },
+      });
+    },
+  },
+  createPlugin(origin) {
+    const plugin = new ShopifyPlugin(String(CONFORMANCE_APP_ID));
+    plugin.configure({
+      appId: CONFORMANCE_APP_ID,
+      shopDomain: new URL(origin).host,
+      accessToken: SHOPIFY_ACCESS_TOKEN,
+      apiVersion: "2025-01",
+    });
+    return plugin;
+  },
+};
+
+const woocommerce: PlatformFixture = {
+  origin: "https://storefront.conformance.test",
+  platform: {
+    isAuthorized: (request) =>
+      request.headers.authorization ===
+      `Basic ${Buffer.from(`${WOOCOMMERCE_KEY}:${WOOCOMMERCE_SECRET}`).toString("base64")}`,
+    handle(request, catalog): StorefrontResponse | null {
+      const toWooCommerce = (product: FakeProduct) => ({
+        id: product.id,
+        name: product.name,
+        status: product.published ? "publish" : "draft",
+        catalog_visibility: "visible",
+        description: `<p>${product.description}</p>`,
+        images: product.images.map((src) => ({ src })),
+        categories: product.categories.map((name) => ({ name })),
+        attributes: [{ name: "Color", options: product.colors }],
+      });
+
+      const single = /^\/wp-json\/wc\/v3\/products\/(\d+)$/.exec(
+        request.url.pathname
+      );
+      if (single) {
+        const product = findProduct(catalog, single[1]);
+        return product ? json(toWooCommerce(product)) : null;
+      }
+
+      if (request.url.pathname !== "/wp-json/wc/v3/products") return null;
+      const page = parseInt(request.url.searchParams.get("page") ?? "1") || 1;
+      const perPage = Math.min(
+        parseInt(request.url.searchParams.get("per_page") ?? "10") || 10,
+        100
+      );
+      return json(
+        catalog.slice((page - 1) * perPage, page * perPage).map(toWooCommerce),
+        {
+          "X-WP-Total": String(catalog.length),
+          "X-WP-TotalPages": String(Math.ceil(catalog.length / perPage)),
+        }
+      );
+    },
+  },
+  createPlugin(origin) {
+    const plugin = new WooCommercePlugin(String(CONFORMANCE_APP_ID));
+    plugin.configure({
+      appId: CONFORMANCE_APP_ID,
+      storeUrl: origin,
+      consumerKey: WOOCOMMERCE_KEY,
+      consumerSecret: WOOCOMMERCE_SECRET,
+    });
+    return plugin;
+  },
+};
+
+const googleMerchant: PlatformFixture = {
+  origin: "https://storefront.conformance.test",
+  platform: {
+    isAuthorized: () => true, // feeds are public
+    handle(request, catalog): StorefrontResponse | null {
+      if (request.url.pathname !== "/feeds/google.xml") return null;
+
+      const items = catalog.map((product) => {
+        const [imageLink, ...additionalImages] = product.images;
+        return [
+          "<item>",
+          `<g:id>${product.id}</g:id>`,
+          `<g:title>${escapeXml(product.name)}</g:title>`,
+          `<g:description><![CDATA[${product.description}]]></g:description>`,
+          imageLink && `<g:image_link>${imageLink}</g:image_link>`,
+          ...additionalImages.map(
+            (image) =>
+              `<g:additional_image_link>${image}</g:additional_image_link>`
+          ),
+          `<g:availability>${product.published ? "in_stock" : "out_of_stock"}</g:availability>`,
+          `<g:product_type>${escapeXml(product.categories.join(" > "))}</g:product_type>`,
+          `<g:color>${product.colors.join("/")}</g:color>`,
+          "</item>",
+        ]
+          .filter(Boolean)
+          .join("");
+      });
+
+      return {
+        status: 200,
+        headers: { "Content-Type": "application/rss+xml" },
+        body:
+          '<?xml version="1.0"?><rss version="2.0" xmlns:g="http://base.google.com/ns/1.0"><channel><title>Conformance</title>' +
+          items.join("\n") +
+          "</channel></rss>",
+      };
+    },
+  },
+  createPlugin(origin) {
+    const plugin = new GoogleMerchantPlugin(String(CONFORMANCE_APP_ID));
+    plugin.configure({
+      appId: CONFORMANCE_APP_ID,
+      feedUrl: `${origin}/feeds/google.xml`,
+      etag: null,
+      lastModified: null,
+      dateFetched: null,
+    });
+    return plugin;
+  },
+};
+
+// Plugins without a fixture, like uploaded feeds, are skipped
+export const PLATFORM_FIXTURES: Record<string, PlatformFixture> = {
+  shopcada,
+  shopify,
+  woocommerce,
+  google_merchant: googleMerchant,
+};
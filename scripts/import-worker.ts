@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { ImportWorker } from "../src/app/lib/import_job/worker";
+
+const worker = new ImportWorker({
+  concurrency: parseInt(process.env.IMPORT_WORKER_CONCURRENCY ?? "4") || 4,
+});
+
+// Hand running jobs back to the queue before exiting
+const shutdown = (signal: string) => {
+  console.log(`Received ${signal}, stopping import worker...`);
+  worker
+    .stop()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Failed to stop import worker cleanly:", error);
+      process.exit(1);
+    });
+};
+
+process.on("SIGINT", () => shutdown("SIGINT"));
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+worker.start().catch((error) => {
+  console.error("❌ Import worker crashed:", error);
+  process.exit(1);
+});
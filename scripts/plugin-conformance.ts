@@ -0,0 +1,511 @@
+import "./conformance/offline-database";
+import { listPlugins } from "../src/app/lib/conversion/conversion_layer";
+import type {
+  App,
+  FetchCheckpoint,
+  PluginDescriptor,
+  Product,
+} from "../src/app/lib/conversion/plugin_class";
+import {
+  FakeStorefront,
+  makeCatalog,
+  type FakeProduct,
+} from "./conformance/fake-storefront";
+import {
+  PLATFORM_FIXTURES,
+  type PlatformFixture,
+} from "./conformance/platforms";
+
+/**
+ * Plugin conformance kit. Runs every registered plugin (or the ones named
+ * on the command line) against a fake storefront and checks the Product
+ * contract, pagination completeness and error surfaces.
+ *
+ *   npm run conformance -- [pluginName...] [--verbose]
+ *
+ * Needs no database: fixtures configure each plugin directly instead of
+ * through init().
+ */
+
+// Not a multiple of any page size, so a lost last page shows up
+const CATALOG_SIZE = 137;
+
+// A hanging plugin fails its check instead of the run
+const CHECK_TIMEOUT_MS = 60000;
+
+type CheckLevel = "required" | "recommended";
+
+interface CheckContext {
+  storefront: FakeStorefront;
+  catalog: FakeProduct[];
+  createPlugin: () => Promise<App>;
+}
+
+interface Check {
+  name: string;
+  level: CheckLevel;
+  appliesTo?(descriptor: PluginDescriptor): boolean;
+  run(context: CheckContext): Promise<string | void>; // throws on failure, may return a note
+}
+
+interface CheckResult {
+  name: string;
+  level: CheckLevel;
+  passed: boolean;
+  detail?: string;
+}
+
+class ConformanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConformanceError";
+  }
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new ConformanceError(message);
+}
+
+function memoryCheckpoint(
+  fetchedPages = new Map<number, Product[]>(),
+  pageSizes = new Map<number, number>()
+): FetchCheckpoint {
+  return {
+    fetchedPages,
+    pageSizes,
+    savePage: async (page, products, pageSize) => {
+      fetchedPages.set(page, products);
+      if (pageSize !== undefined) pageSizes.set(page, pageSize);
+    },
+  };
+}
+
+async function expectRejection(
+  promise: Promise<unknown>,
+  what: string
+): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  throw new ConformanceError(`${what} resolved instead of rejecting`);
+}
+
+/**
+ * Every catalog product exactly once, nothing else
+ */
+function assertComplete(products: Product[], catalog: FakeProduct[]): void {
+  const ids = products.map((product) => product.product_id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  assert(
+    duplicates.length === 0,
+    `Duplicate products: ${[...new Set(duplicates)].slice(0, 10).join(", ")}`
+  );
+
+  const expected = new Set(catalog.map((product) => product.id));
+  const missing = [...expected].filter((id) => !ids.includes(id));
+  assert(
+    missing.length === 0,
+    `${missing.length} of ${catalog.length} products missing, e.g. ${missing.slice(0, 5).join(", ")}`
+  );
+
+  const unexpected = ids.filter((id) => !expected.has(id));
+  assert(
+    unexpected.length === 0,
+    `Unknown products returned: ${unexpected.slice(0, 5).join(", ")}`
+  );
+}
+
+/**
+ * The Product contract plus the fields every platform can map
+ */
+function assertProduct(product: Product, source: FakeProduct): void {
+  const label = `Product ${source.id}`;
+  assert(
+    Number.isSafeInteger(product.product_id) && product.product_id > 0,
+    `${label}: product_id must be a positive integer, got ${String(product.product_id)}`
+  );
+  assert(
+    typeof product.name === "string" && product.name === source.name,
+    `${label}: name should be "${source.name}", got ${JSON.stringify(product.name)}`
+  );
+  assert(
+    product.description === undefined ||
+      typeof product.description === "string",
+    `${label}: description must be a string`
+  );
+  assert(
+    product.description?.includes(source.description),
+    `${label}: description should contain the product text`
+  );
+  assert(
+    typeof product.isPublished === "boolean",
+    `${label}: isPublished must be a boolean`
+  );
+  assert(
+    product.isPublished === source.published,
+    `${label}: isPublished should be ${source.published}`
+  );
+  assert(
+    product.images === undefined ||
+      (Array.isArray(product.images) &&
+        product.images.every((image) => typeof image === "string")),
+    `${label}: images must be an array of strings`
+  );
+  assert(
+    product.images?.[0] === source.images[0],
+    `${label}: first image should be ${source.images[0]}`
+  );
+}
+
+const CHECKS: Check[] = [
+  {
+    name: "fetches every product exactly once",
+    level: "required",
+    async run({ storefront, catalog, createPlugin }) {
+      const plugin = await createPlugin();
+      const { products } = await plugin.getAllProducts();
+      assertComplete(products, catalog);
+      return `${storefront.requests.length} requests`;
+    },
+  },
+  {
+    name: "maps products onto the Product contract",
+    level: "required",
+    async run({ catalog, createPlugin }) {
+      const plugin = await createPlugin();
+      const { products } = await plugin.getAllProducts();
+      const byId = new Map(
+        products.map((product) => [product.product_id, product])
+      );
+      for (const source of catalog) {
+        const product = byId.get(source.id);
+        assert(product, `Product ${source.id} missing`);
+        assertProduct(product, source);
+      }
+    },
+  },
+  {
+    name: "resumes from saved pages without losing products",
+    level: "required",
+    async run({ storefront, catalog, createPlugin }) {
+      const checkpoint = memoryCheckpoint();
+      await (await createPlugin()).getAllProducts(checkpoint);
+      const firstRunRequests = storefront.requests.length;
+
+      // An interrupted run saved the first half of its pages
+      const savedPages = [...checkpoint.fetchedPages].slice(
+        0,
+        Math.ceil(checkpoint.fetchedPages.size / 2)
+      );
+      storefront.reset();
+      const { products } = await (
+        await createPlugin()
+      ).getAllProducts(
+        memoryCheckpoint(
+          new Map(savedPages),
+          new Map(
+            [...checkpoint.pageSizes].filter(([page]) =>
+              savedPages.some(([savedPage]) => savedPage === page)
+            )
+          )
+        )
+      );
+      assertComplete(products, catalog);
+      assert(
+        savedPages.length === 0 ||
+          storefront.requests.length < firstRunRequests,
+        `Resumed run made ${storefront.requests.length} requests, as many as a fresh run`
+      );
+      return `${savedPages.length} saved pages, ${storefront.requests.length}/${firstRunRequests} requests`;
+    },
+  },
+  {
+    name: "tolerates slow responses",
+    level: "required",
+    async run({ storefront, catalog, createPlugin }) {
+      storefront.reset({ delayMs: 250 });
+      const { products } = await (await createPlugin()).getAllProducts();
+      assertComplete(products, catalog);
+    },
+  },
+  {
+    name: "rejects refused credentials (401)",
+    level: "required",
+    async run({ storefront, createPlugin }) {
+      storefront.reset({ status: 401 });
+      const plugin = await createPlugin();
+      return expectRejection(plugin.getAllProducts(), "getAllProducts");
+    },
+  },
+  {
+    name: "rejects a missing endpoint (404)",
+    level: "required",
+    async run({ storefront, createPlugin }) {
+      storefront.reset({ status: 404 });
+      const plugin = await createPlugin();
+      return expectRejection(plugin.getAllProducts(), "getAllProducts");
+    },
+  },
+  {
+    name: "rejects persistent server errors (500)",
+    level: "required",
+    async run({ storefront, createPlugin }) {
+      storefront.reset({ status: 500 });
+      const plugin = await createPlugin();
+      return expectRejection(plugin.getAllProducts(), "getAllProducts");
+    },
+  },
+  {
+    name: "rejects malformed responses",
+    level: "required",
+    async run({ storefront, createPlugin }) {
+      storefront.reset({ malformed: true });
+      const plugin = await createPlugin();
+      return expectRejection(plugin.getAllProducts(), "getAllProducts");
+    },
+  },
+  {
+    name: "never drops a page that failed mid-pagination",
+    level: "required",
+    async run({ storefront, catalog, createPlugin }) {
+      storefront.reset({ status: 500, skipRequests: 1 });
+      const plugin = await createPlugin();
+      // Either every product arrives or the fetch fails, never a silent gap
+      const products = await plugin.getAllProducts().then(
+        (result) => result.products,
+        () => null // failing loudly is conformant
+      );
+      if (!products) return "fetch failed";
+      assertComplete(products, catalog);
+    },
+  },
+  {
+    name: "retries a transient server error",
+    level: "recommended",
+    async run({ storefront, catalog, createPlugin }) {
+      storefront.reset({ status: 500, skipRequests: 1, times: 1 });
+      const { products } = await (await createPlugin()).getAllProducts();
+      assertComplete(products, catalog);
+    },
+  },
+  {
+    name: "honours rate limits (429)",
+    level: "recommended",
+    async run({ storefront, catalog, createPlugin }) {
+      storefront.reset({ status: 429, times: 2 });
+      const { products } = await (await createPlugin()).getAllProducts();
+      assertComplete(products, catalog);
+    },
+  },
+  {
+    name: "fetches single products by id",
+    level: "required",
+    appliesTo: (descriptor) => descriptor.capabilities.singleProductFetch,
+    async run({ catalog, createPlugin }) {
+      const plugin = await createPlugin();
+      const source = catalog[catalog.length - 1];
+      assert(source, "Catalog is empty");
+
+      if (!plugin.getProductById) {
+        throw new ConformanceError("getProductById is not implemented");
+      }
+
+      const product = await plugin.getProductById(String(source.id));
+      assert(product, `Product ${source.id} not found`);
+      assertProduct(product, source);
+
+      const missing = await plugin.getProductById("999999999");
+      assert(missing === null, "Unknown product id should return null");
+    },
+  },
+  {
+    name: "reports a working connection",
+    level: "required",
+    appliesTo: (descriptor) => descriptor.capabilities.connectionTest,
+    async run({ catalog, createPlugin }) {
+      const plugin = await createPlugin();
+      if (!plugin.testConnection) {
+        throw new ConformanceError("testConnection is not implemented");
+      }
+
+      const { ok, message, sampleProduct } = await plugin.testConnection();
+      assert(ok, `Connection test failed: ${message}`);
+      const source = catalog.find(
+        (product) => product.id === sampleProduct?.product_id
+      );
+      assert(
+        sampleProduct && source,
+        "Connection test returned no known sample product"
+      );
+      assertProduct(sampleProduct, source);
+    },
+  },
+  {
+    name: "diagnoses refused credentials",
+    level: "required",
+    appliesTo: (descriptor) => descriptor.capabilities.connectionTest,
+    async run({ storefront, createPlugin }) {
+      storefront.reset({ status: 401 });
+      const plugin = await createPlugin();
+      if (!plugin.testConnection) {
+        throw new ConformanceError("testConnection is not implemented");
+      }
+
+      const result = await plugin.testConnection();
+      assert(
+        !result.ok && result.problem === "unauthorized",
+        `Expected problem "unauthorized", got ${result.problem ?? "ok"}`
+      );
+    },
+  },
+];
+
+/**
+ * Sends requests for the fixture's origin to the fake storefront
+ */
+function routeFetch(origin: string, baseUrl: string): () => void {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (input, init) => {
+    const request = new Request(input, init);
+    if (!request.url.startsWith(origin)) return realFetch(input, init);
+    return realFetch(
+      new Request(baseUrl + request.url.slice(origin.length), request)
+    );
+  };
+  return () => {
+    globalThis.fetch = realFetch;
+  };
+}
+
+// Plugins log every page, which buries the report
+function quietConsole(verbose: boolean): () => void {
+  if (verbose) return () => undefined;
+  const { log, info, warn, error } = console;
+  console.log = console.info = console.warn = console.error = () => undefined;
+  return () => Object.assign(console, { log, info, warn, error });
+}
+
+async function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(new ConformanceError(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+      CHECK_TIMEOUT_MS
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runPlugin(
+  name: string,
+  descriptor: PluginDescriptor,
+  fixture: PlatformFixture,
+  verbose: boolean
+): Promise<CheckResult[]> {
+  const catalog = makeCatalog(CATALOG_SIZE);
+  const storefront = new FakeStorefront(fixture.platform, catalog);
+  const baseUrl = await storefront.start();
+  const restoreFetch = routeFetch(fixture.origin, baseUrl);
+
+  const results: CheckResult[] = [];
+  try {
+    const context: CheckContext = {
+      storefront,
+      catalog,
+      createPlugin: async () => fixture.createPlugin(fixture.origin),
+    };
+
+    for (const check of CHECKS) {
+      if (check.appliesTo && !check.appliesTo(descriptor)) continue;
+
+      storefront.reset();
+      const restoreConsole = quietConsole(verbose);
+      let result: CheckResult;
+      try {
+        const note = await withTimeout(check.run(context));
+        result = {
+          name: check.name,
+          level: check.level,
+          passed: true,
+          detail: note ?? undefined,
+        };
+      } catch (error) {
+        result = {
+          name: check.name,
+          level: check.level,
+          passed: false,
+          detail: error instanceof Error ? error.message : String(error),
+        };
+      } finally {
+        restoreConsole();
+      }
+      results.push(result);
+
+      const mark = result.passed
+        ? "✅"
+        : result.level === "required"
+          ? "❌"
+          : "⚠️";
+      console.log(
+        `  ${mark} ${result.name}${result.level === "recommended" ? " (recommended)" : ""}${result.detail ? ` — ${result.detail.substring(0, 300)}` : ""}`
+      );
+    }
+  } finally {
+    restoreFetch();
+    await storefront.stop();
+  }
+  return results;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const verbose = args.includes("--verbose");
+  const requested = args.filter((arg) => !arg.startsWith("--"));
+
+  const plugins = listPlugins().filter(
+    (plugin) => requested.length === 0 || requested.includes(plugin.name)
+  );
+  const unknown = requested.filter(
+    (name) => !plugins.some((plugin) => plugin.name === name)
+  );
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown plugins: ${unknown.join(", ")}`);
+    return 1;
+  }
+
+  let requiredFailures = 0;
+  for (const { name, ...descriptor } of plugins) {
+    const fixture = PLATFORM_FIXTURES[name];
+    if (!fixture) {
+      console.log(`\n${name}: skipped, no storefront fixture`);
+      continue;
+    }
+
+    console.log(`\n${name}:`);
+    const results = await runPlugin(name, descriptor, fixture, verbose);
+    requiredFailures += results.filter(
+      (result) => !result.passed && result.level === "required"
+    ).length;
+  }
+
+  console.log(
+    requiredFailures === 0
+      ? "\n✅ All required checks passed"
+      : `\n❌ ${requiredFailures} required checks failed`
+  );
+  return requiredFailures === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("❌ Conformance run crashed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../../lib/cors";
+import {
+  getCallback,
+  listCallbackDeliveries,
+} from "../../../../../../lib/callbacks/callbacks";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; callbackId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, callbackId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const parsedCallbackId = parseInt(callbackId);
+    const callback =
+      isNaN(parsedCallbackId) || parsedCallbackId <= 0
+        ? null
+        : await getCallback(parsedAppId, parsedCallbackId);
+    if (!callback) {
+      const response = NextResponse.json(
+        { error: "Callback not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Optional ?limit= query parameter, capped to keep responses small
+    const limitParam = new URL(request.url).searchParams.get("limit");
+    const parsedLimit = limitParam ? parseInt(limitParam) : 50;
+    const limit =
+      isNaN(parsedLimit) || parsedLimit <= 0 ? 50 : Math.min(parsedLimit, 200);
+
+    const deliveries = await listCallbackDeliveries(callback.callbackId, limit);
+
+    const response = NextResponse.json({ callback, deliveries });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in callback deliveries route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../lib/cors";
+import { removeCallback } from "../../../../../lib/callbacks/callbacks";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; callbackId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, callbackId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const parsedCallbackId = parseInt(callbackId);
+    if (isNaN(parsedCallbackId) || parsedCallbackId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid callback ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const removed = await removeCallback(parsedAppId, parsedCallbackId);
+    if (!removed) {
+      const response = NextResponse.json(
+        { error: "Callback not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const response = NextResponse.json({
+      message: "Callback removed",
+      callbackId: parsedCallbackId,
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in callback route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
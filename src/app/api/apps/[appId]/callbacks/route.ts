@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import {
+  createCallback,
+  isValidCallbackUrl,
+  listCallbacks,
+} from "../../../../lib/callbacks/callbacks";
+import { resolvesToPublicAddress } from "../../../../lib/public_fetch";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const callbacks = await listCallbacks(parsedAppId);
+
+    const response = NextResponse.json({ callbacks });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in callbacks route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const body = (await request.json().catch(() => null)) as {
+      url?: unknown;
+    } | null;
+    const url = body?.url;
+    if (typeof url !== "string" || !isValidCallbackUrl(url)) {
+      const response = NextResponse.json(
+        {
+          error: "Invalid callback URL",
+          message: 'Expected a JSON body like { "url": "https://..." }',
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (!(await resolvesToPublicAddress(url))) {
+      const response = NextResponse.json(
+        {
+          error: "Invalid callback URL",
+          message:
+            "The callback host must resolve to a public address, not a loopback, link-local or private one",
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const callback = await createCallback(parsedAppId, url);
+
+    // The secret is only ever returned here
+    const response = NextResponse.json(
+      {
+        callback: {
+          callbackId: callback.callbackId,
+          appId: callback.appId,
+          url: callback.url,
+          isActive: callback.isActive,
+          dateCreated: callback.dateCreated,
+        },
+        secret: callback.secret,
+      },
+      { status: 201 }
+    );
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in callbacks route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../lib/cors";
+import {
+  ConnectionTestNotSupportedError,
+  testAppConnection,
+} from "../../../../../lib/config/connection_test";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+// Diagnoses the plugin configuration by fetching one product
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const result = await testAppConnection(parsedAppId);
+    if (!result) {
+      const response = NextResponse.json(
+        { error: "App not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // A failed test is still a successful diagnosis, see ok and problem
+    const response = NextResponse.json(result);
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    if (error instanceof ConnectionTestNotSupportedError) {
+      const response = NextResponse.json(
+        { error: "Connection test not supported", message: error.message },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    console.error("Error in config test route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
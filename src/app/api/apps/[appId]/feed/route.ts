@@ -0,0 +1,370 @@
+import { NextResponse } from "next/server";
+import { db } from "../../../../../server/db";
+import { apps } from "../../../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import {
+  assertCanStartImport,
+  PlanLimitError,
+} from "../../../../lib/plans/plans";
+import { planLimitResponse } from "../../../../lib/plans/plan_limit_response";
+import {
+  createImportJob,
+  ImportAlreadyRunningError,
+} from "../../../../lib/import_job/import_job";
+import {
+  deleteFeedUpload,
+  detectFeedFormat,
+  FeedFormatError,
+  getFeedMapping,
+  listFeedUploads,
+  MAX_FEED_BYTES,
+  parseFeed,
+  parseFeedMapping,
+  saveFeedMapping,
+  saveFeedUpload,
+  setFeedUploadJob,
+  type FeedColumnMapping,
+} from "../../../../lib/feed/feed";
+
+const DEFAULT_UPLOAD_LIMIT = 20;
+const MAX_UPLOAD_LIMIT = 100;
+
+interface FeedInput {
+  text: string;
+  fileName: string | null;
+  contentType: string | null;
+  mapping: string | null;
+}
+
+// Reads the feed from a multipart "file" field or from the raw request body
+async function readFeedInput(request: Request): Promise<FeedInput | null> {
+  const { searchParams } = new URL(request.url);
+  const contentType = request.headers.get("content-type");
+
+  if (contentType?.startsWith("multipart/form-data")) {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || typeof file === "string") return null;
+
+    const mapping = formData.get("mapping");
+    return {
+      text: await file.text(),
+      fileName: file.name || null,
+      contentType: file.type || null,
+      mapping:
+        typeof mapping === "string" ? mapping : searchParams.get("mapping"),
+    };
+  }
+
+  return {
+    text: await request.text(),
+    fileName: searchParams.get("filename"),
+    contentType,
+    mapping: searchParams.get("mapping"),
+  };
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsedLimit = parseInt(
+      searchParams.get("limit") ?? String(DEFAULT_UPLOAD_LIMIT)
+    );
+    const limit = Math.min(
+      isNaN(parsedLimit) || parsedLimit <= 0
+        ? DEFAULT_UPLOAD_LIMIT
+        : parsedLimit,
+      MAX_UPLOAD_LIMIT
+    );
+
+    const [mapping, uploads] = await Promise.all([
+      getFeedMapping(parsedAppId),
+      listFeedUploads(parsedAppId, limit),
+    ]);
+
+    const response = NextResponse.json({ mapping, uploads });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in feed route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] POST request from origin: ${origin}`);
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Refuse oversized feeds before reading them when the size is announced
+    const contentLength = parseInt(request.headers.get("content-length") ?? "");
+    if (!isNaN(contentLength) && contentLength > MAX_FEED_BYTES) {
+      const response = NextResponse.json(
+        {
+          error: "Feed too large",
+          message: `Feeds may be at most ${MAX_FEED_BYTES / (1024 * 1024)} MB`,
+        },
+        { status: 413 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const [app] = await db
+      .select()
+      .from(apps)
+      .where(eq(apps.appId, parsedAppId))
+      .limit(1);
+
+    if (!app) {
+      const response = NextResponse.json(
+        { error: "App not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (app.pluginName !== "feed") {
+      const response = NextResponse.json(
+        {
+          error: "Feed uploads not supported",
+          message: `App uses the ${app.pluginName} plugin. Switch it to the feed plugin to upload product feeds.`,
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    // A dry run only validates, so it does not count against the plan
+    if (!dryRun) {
+      try {
+        await assertCanStartImport(app);
+      } catch (error) {
+        if (error instanceof PlanLimitError) {
+          return setCorsHeaders(planLimitResponse(error), origin);
+        }
+        throw error;
+      }
+    }
+
+    const input = await readFeedInput(request);
+    if (!input || input.text.trim() === "") {
+      const response = NextResponse.json(
+        {
+          error: "Missing feed",
+          message:
+            'Send the feed as the request body or as a multipart "file" field',
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (Buffer.byteLength(input.text) > MAX_FEED_BYTES) {
+      const response = NextResponse.json(
+        {
+          error: "Feed too large",
+          message: `Feeds may be at most ${MAX_FEED_BYTES / (1024 * 1024)} MB`,
+        },
+        { status: 413 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const format = detectFeedFormat(
+      searchParams.get("format"),
+      input.contentType,
+      input.fileName
+    );
+    if (!format) {
+      const response = NextResponse.json(
+        {
+          error: "Unknown feed format",
+          message:
+            "Pass ?format=csv, json or ndjson, or send a matching Content-Type or file name",
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    let result;
+    let mapping: FeedColumnMapping;
+    try {
+      mapping = input.mapping
+        ? parseFeedMapping(JSON.parse(input.mapping))
+        : await getFeedMapping(parsedAppId);
+      result = parseFeed(input.text, format, mapping);
+    } catch (error) {
+      if (error instanceof FeedFormatError || error instanceof SyntaxError) {
+        const response = NextResponse.json(
+          {
+            error: "Invalid feed",
+            message:
+              error instanceof SyntaxError
+                ? "Column mapping must be valid JSON"
+                : error.message,
+          },
+          { status: 400 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+      throw error;
+    }
+
+    const report = {
+      format,
+      totalRows: result.totalRows,
+      validRows: result.products.length,
+      errorCount: result.errorCount,
+      errors: result.errors,
+    };
+
+    if (dryRun) {
+      const response = NextResponse.json({ dryRun: true, mapping, ...report });
+      return setCorsHeaders(response, origin);
+    }
+
+    if (result.products.length === 0) {
+      const response = NextResponse.json(
+        {
+          error: "No valid products",
+          message: "Every row in the feed failed validation",
+          ...report,
+        },
+        { status: 422 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+    const upload = await saveFeedUpload(parsedAppId, result, input.fileName);
+
+    let job;
+    try {
+      job = await createImportJob(parsedAppId);
+    } catch (error) {
+      // Only one import may run per app at a time
+      if (error instanceof ImportAlreadyRunningError) {
+        await deleteFeedUpload(upload.uploadId);
+        const response = NextResponse.json(
+          {
+            error: "Import already running",
+            message:
+              "An import is already running for this app. Wait for it to finish or cancel it first, then upload the feed again.",
+            jobId: error.jobId,
+            statusUrl: `/api/apps/${parsedAppId}/imports/${error.jobId}`,
+          },
+          { status: 409 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+      throw error;
+    }
+    await setFeedUploadJob(upload.uploadId, job.jobId);
+
+    // The mapping sticks for later uploads once it produced a usable feed
+    // that was accepted for import
+    if (input.mapping) {
+      await saveFeedMapping(parsedAppId, mapping);
+    }
+
+    console.log(
+      `[Feed] App ${parsedAppId} uploaded ${result.products.length} products (${result.errorCount} row errors), queued job ${job.jobId}`
+    );
+
+    const response = NextResponse.json(
+      {
+        message: "Feed accepted, import queued",
+        status: "queued",
+        uploadId: upload.uploadId,
+        jobId: job.jobId,
+        statusUrl: `/api/apps/${parsedAppId}/imports/${job.jobId}`,
+        ...report,
+      },
+      { status: 202 }
+    );
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in feed route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
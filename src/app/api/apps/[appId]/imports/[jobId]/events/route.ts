@@ -0,0 +1,210 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../../lib/cors";
+import {
+  getImportJob,
+  isValidJobId,
+  listImportJobEvents,
+  TERMINAL_JOB_STATUSES,
+  type ImportJob,
+  type ImportJobStatus,
+} from "../../../../../../lib/import_job/import_job";
+
+// Streams never finish within a static render, always run per request
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Formats a single Server-Sent Events message
+function formatSseMessage(event: string, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : "";
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Progress snapshot sent whenever the job row changes
+function jobSnapshot(job: ImportJob) {
+  return {
+    jobId: job.jobId,
+    status: job.status,
+    phase: job.phase,
+    totalProducts: job.totalProducts,
+    processedProducts: job.processedProducts,
+    failedProducts: job.failedProducts,
+    totalBatches: job.totalBatches,
+    completedBatches: job.completedBatches,
+    result: job.result,
+    error: job.error,
+  };
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; jobId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, jobId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (!isValidJobId(jobId)) {
+      const response = NextResponse.json(
+        { error: "Invalid job ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const initialJob = await getImportJob(parsedAppId, jobId);
+    if (!initialJob) {
+      const response = NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Resume after the last event the client saw when EventSource reconnects.
+    // Event ids are the job's event sequence, which commits in order
+    const lastEventIdHeader = request.headers.get("last-event-id");
+    const parsedLastEventId = lastEventIdHeader
+      ? parseInt(lastEventIdHeader)
+      : 0;
+    let lastSequence = isNaN(parsedLastEventId) ? 0 : parsedLastEventId;
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Stream was already cancelled by the client
+          }
+        };
+        request.signal.addEventListener("abort", close);
+
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        let job = initialJob;
+        let lastSnapshot = JSON.stringify(jobSnapshot(job));
+        let lastHeartbeat = Date.now();
+        send(formatSseMessage("job", jobSnapshot(job)));
+
+        try {
+          while (!closed) {
+            // The job is read before its events: events are stored before
+            // the status flips, so once a terminal status is read, the
+            // query below sees every event the run emitted
+            const latestJob = await getImportJob(parsedAppId, jobId);
+            const events = await listImportJobEvents(jobId, lastSequence);
+            for (const event of events) {
+              send(formatSseMessage(event.type, event.data, event.sequence));
+              lastSequence = event.sequence;
+            }
+
+            if (latestJob) {
+              job = latestJob;
+              const snapshot = JSON.stringify(jobSnapshot(job));
+              if (snapshot !== lastSnapshot) {
+                send(formatSseMessage("job", jobSnapshot(job)));
+                lastSnapshot = snapshot;
+              }
+            }
+
+            // Finish once the job is over and every event has been delivered
+            if (
+              TERMINAL_JOB_STATUSES.includes(job.status as ImportJobStatus) &&
+              events.length === 0
+            ) {
+              send(formatSseMessage("done", jobSnapshot(job)));
+              break;
+            }
+
+            if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+              send(": heartbeat\n\n");
+              lastHeartbeat = Date.now();
+            }
+
+            if (events.length === 0) {
+              await new Promise((resolve) =>
+                setTimeout(resolve, POLL_INTERVAL_MS)
+              );
+            }
+          }
+        } catch (error) {
+          console.error(
+            `[Import Events] Stream failed for job ${jobId}:`,
+            error
+          );
+          send(
+            formatSseMessage("error", {
+              message: error instanceof Error ? error.message : "Unknown error",
+            })
+          );
+        } finally {
+          request.signal.removeEventListener("abort", close);
+          close();
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    const response = new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import events route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,327 @@
+import { NextResponse } from "next/server";
+import { db } from "../../../../../../server/db";
+import { apps } from "../../../../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import { verifyApiKey } from "../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../lib/cors";
+import {
+  cancelImportJob,
+  getImportJob,
+  ImportAlreadyRunningError,
+  isValidJobId,
+  reopenImportJob,
+  RESUMABLE_JOB_STATUSES,
+  TERMINAL_JOB_STATUSES,
+  type ImportJob,
+  type ImportJobStatus,
+} from "../../../../../lib/import_job/import_job";
+import {
+  assertBillingActive,
+  PlanLimitError,
+} from "../../../../../lib/plans/plans";
+import { planLimitResponse } from "../../../../../lib/plans/plan_limit_response";
+
+interface ImportJobActionBody {
+  action?: unknown;
+}
+
+// Re-queues a failed or interrupted job to run from its checkpoint
+async function resumeJob(appId: number, job: ImportJob) {
+  // Resuming finishes an import the plan already allowed, so only billing is
+  // checked here. Reopening still refuses while another import runs, and
+  // vision quota is enforced as the run describes products.
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.appId, appId),
+  });
+  if (!app) {
+    return NextResponse.json({ error: "App not found" }, { status: 404 });
+  }
+  try {
+    assertBillingActive(app);
+  } catch (error) {
+    if (error instanceof PlanLimitError) return planLimitResponse(error);
+    throw error;
+  }
+
+  // Only failed or interrupted jobs have a checkpoint worth resuming
+  let reopenedJob: ImportJob | null = null;
+  try {
+    reopenedJob = RESUMABLE_JOB_STATUSES.includes(job.status as ImportJobStatus)
+      ? await reopenImportJob(appId, job.jobId)
+      : null;
+  } catch (error) {
+    if (error instanceof ImportAlreadyRunningError) {
+      return NextResponse.json(
+        {
+          error: "Import already running",
+          message:
+            "Another import is running for this app. Wait for it to finish or cancel it first.",
+          jobId: error.jobId,
+        },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
+
+  if (!reopenedJob) {
+    return NextResponse.json(
+      {
+        error: "Import job cannot be resumed",
+        message: `Job is ${job.status}. Only ${RESUMABLE_JOB_STATUSES.join(" or ")} jobs can be resumed.`,
+      },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    message: "Import re-queued, it will resume from its last checkpoint",
+    status: "queued",
+    jobId: job.jobId,
+    resumedAfterBatch: reopenedJob.completedBatches,
+  });
+}
+
+// Stops a job; a running job finishes its current concurrent group first
+async function cancelJob(appId: number, job: ImportJob) {
+  const cancelledJob = await cancelImportJob(appId, job.jobId);
+
+  if (!cancelledJob) {
+    return NextResponse.json(
+      {
+        error: "Import job cannot be cancelled",
+        message: `Job is already ${job.status}.`,
+      },
+      { status: 409 }
+    );
+  }
+
+  const stillRunning = !TERMINAL_JOB_STATUSES.includes(
+    cancelledJob.status as ImportJobStatus
+  );
+
+  return NextResponse.json(
+    {
+      message: stillRunning
+        ? "Cancellation requested, the import stops after its current step"
+        : "Import cancelled",
+      status: stillRunning ? "cancelling" : "cancelled",
+      jobId: job.jobId,
+      processedProducts: cancelledJob.processedProducts,
+    },
+    { status: stillRunning ? 202 : 200 }
+  );
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; jobId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, jobId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (!isValidJobId(jobId)) {
+      const response = NextResponse.json(
+        { error: "Invalid job ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const job = await getImportJob(parsedAppId, jobId);
+    if (!job) {
+      const response = NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const response = NextResponse.json({ job });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import job route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; jobId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, jobId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (!isValidJobId(jobId)) {
+      const response = NextResponse.json(
+        { error: "Invalid job ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const body = (await request
+      .json()
+      .catch(() => ({}))) as ImportJobActionBody;
+
+    if (body.action !== "resume" && body.action !== "cancel") {
+      const response = NextResponse.json(
+        {
+          error: "Invalid action",
+          message: 'Supported actions: "resume", "cancel"',
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const job = await getImportJob(parsedAppId, jobId);
+    if (!job) {
+      const response = NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const response =
+      body.action === "resume"
+        ? await resumeJob(parsedAppId, job)
+        : await cancelJob(parsedAppId, job);
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import job action route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ appId: string; jobId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId, jobId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (!isValidJobId(jobId)) {
+      const response = NextResponse.json(
+        { error: "Invalid job ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const job = await getImportJob(parsedAppId, jobId);
+    if (!job) {
+      const response = NextResponse.json(
+        { error: "Import job not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const response = await cancelJob(parsedAppId, job);
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import job cancel route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
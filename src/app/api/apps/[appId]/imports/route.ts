@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import { listImportJobs } from "../../../../lib/import_job/import_job";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Optional ?limit= query parameter, capped to keep responses small
+    const limitParam = new URL(request.url).searchParams.get("limit");
+    const parsedLimit = limitParam ? parseInt(limitParam) : 20;
+    const limit =
+      isNaN(parsedLimit) || parsedLimit <= 0 ? 20 : Math.min(parsedLimit, 100);
+
+    const jobs = await listImportJobs(parsedAppId, limit);
+
+    const response = NextResponse.json({ jobs });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import jobs route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import get_plugin_name from "../../../../lib/conversion/get_plugin_name";
+import { listPlugins } from "../../../../lib/conversion/conversion_layer";
+import {
+  getIndexingSettings,
+  IndexingSettingsError,
+  updateIndexingSettings,
+  type IndexingSettings,
+} from "../../../../lib/embedding/indexing_settings";
+
+// Settings as returned to clients, with whether the app's plugin can use them
+async function indexingResponse(appId: number, settings: IndexingSettings) {
+  const pluginName = await get_plugin_name(String(appId));
+  const plugin = listPlugins().find(({ name }) => name === pluginName);
+  return {
+    appId,
+    variantIndexing: settings.variantIndexing,
+    variantsSupported: plugin?.capabilities.variants ?? false,
+  };
+}
+
+// Checks the request body, returning the settings or an error message
+function parseIndexingSettings(
+  body: unknown
+): Partial<IndexingSettings> | string {
+  if (typeof body !== "object" || body === null) {
+    return "Request body must be a JSON object";
+  }
+
+  const { variantIndexing } = body as Record<string, unknown>;
+  const settings: Partial<IndexingSettings> = {};
+
+  if (variantIndexing !== undefined) {
+    if (typeof variantIndexing !== "boolean") {
+      return "variantIndexing must be a boolean";
+    }
+    settings.variantIndexing = variantIndexing;
+  }
+
+  return settings;
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const settings = await getIndexingSettings(parsedAppId);
+
+    const response = NextResponse.json({
+      indexing: await indexingResponse(parsedAppId, settings),
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in indexing settings route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    const settings = parseIndexingSettings(body);
+    if (typeof settings === "string") {
+      const response = NextResponse.json(
+        { error: "Invalid indexing settings", message: settings },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const updated = await updateIndexingSettings(parsedAppId, settings);
+
+    const response = NextResponse.json({
+      indexing: await indexingResponse(parsedAppId, updated),
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    if (error instanceof IndexingSettingsError) {
+      const response = NextResponse.json(
+        { error: "Invalid indexing settings", message: error.message },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    console.error("Error in indexing settings route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,188 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import { getAppPlan, type PlanConfig } from "../../../../lib/plans/plans";
+import {
+  effectiveIntervalMinutes,
+  getImportSchedule,
+  updateImportSchedule,
+  type ImportSchedule,
+  type ImportScheduleSettings,
+} from "../../../../lib/scheduler/sync_scheduler";
+
+// Schedule as returned to clients, with the plan bounds that apply to it
+function scheduleResponse(
+  appId: number,
+  schedule: ImportSchedule | null,
+  plan: PlanConfig
+) {
+  const intervalMinutes = schedule?.intervalMinutes ?? null;
+  return {
+    appId,
+    enabled: schedule?.enabled ?? true,
+    intervalMinutes,
+    effectiveIntervalMinutes: effectiveIntervalMinutes(intervalMinutes, plan),
+    planDefaultIntervalMinutes: plan.defaultSyncIntervalMinutes,
+    planMinimumIntervalMinutes: plan.minImportIntervalMinutes,
+    lastRunAt: schedule?.lastRunAt ?? null,
+    nextRunAt: schedule?.nextRunAt ?? null,
+    lastJobId: schedule?.lastJobId ?? null,
+    lastSkipReason: schedule?.lastSkipReason ?? null,
+  };
+}
+
+// Checks the request body, returning the settings or an error message
+function parseScheduleSettings(
+  body: unknown,
+  plan: PlanConfig
+): ImportScheduleSettings | string {
+  if (typeof body !== "object" || body === null) {
+    return "Request body must be a JSON object";
+  }
+
+  const { enabled, intervalMinutes } = body as Record<string, unknown>;
+  const settings: ImportScheduleSettings = {};
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== "boolean") return "enabled must be a boolean";
+    settings.enabled = enabled;
+  }
+
+  if (intervalMinutes !== undefined) {
+    if (intervalMinutes !== null) {
+      if (
+        typeof intervalMinutes !== "number" ||
+        !Number.isInteger(intervalMinutes)
+      ) {
+        return "intervalMinutes must be a whole number of minutes or null";
+      }
+      if (intervalMinutes < plan.minImportIntervalMinutes) {
+        return `The ${plan.name} plan allows re-syncs at most every ${plan.minImportIntervalMinutes} minutes`;
+      }
+    }
+    settings.intervalMinutes = intervalMinutes;
+  }
+
+  return settings;
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const [schedule, plan] = await Promise.all([
+      getImportSchedule(parsedAppId),
+      getAppPlan(parsedAppId),
+    ]);
+
+    const response = NextResponse.json({
+      schedule: scheduleResponse(parsedAppId, schedule, plan),
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import schedule route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    const plan = await getAppPlan(parsedAppId);
+    const settings = parseScheduleSettings(body, plan);
+    if (typeof settings === "string") {
+      const response = NextResponse.json(
+        { error: "Invalid schedule", message: settings },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const schedule = await updateImportSchedule(parsedAppId, plan, settings);
+
+    const response = NextResponse.json({
+      schedule: scheduleResponse(parsedAppId, schedule, plan),
+    });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in import schedule route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
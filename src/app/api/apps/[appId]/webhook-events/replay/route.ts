@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { verifyAdminKey } from "../../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../../lib/cors";
+import {
+  findReplayableWebhookEvents,
+  getWebhookEvent,
+  isValidWebhookEventId,
+  MAX_REPLAY_EVENTS,
+  REPLAYABLE_WEBHOOK_STATUSES,
+  replayWebhookEvents,
+  type WebhookEventStatus,
+} from "../../../../../lib/webhooks/webhook_events";
+
+interface ReplayRequest {
+  eventId?: unknown;
+  from?: unknown;
+  to?: unknown;
+  status?: unknown;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+/**
+ * Re-processes one stored webhook event ({ eventId }) or every accepted
+ * event received in a time range ({ from, to, status? }). The events are
+ * queued for the import workers, which apply them like new deliveries.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Replays re-apply stored deliveries, so they take the admin key
+    if (!verifyAdminKey(request)) {
+      const response = NextResponse.json(
+        { error: "Invalid admin key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const body = ((await request.json().catch(() => null)) ??
+      {}) as ReplayRequest;
+    let eventIds: string[];
+
+    if (body.eventId !== undefined) {
+      const event =
+        typeof body.eventId === "string" && isValidWebhookEventId(body.eventId)
+          ? await getWebhookEvent(parsedAppId, body.eventId)
+          : null;
+      if (!event) {
+        const response = NextResponse.json(
+          { error: "Webhook event not found" },
+          { status: 404 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+
+      if (
+        !REPLAYABLE_WEBHOOK_STATUSES.includes(
+          event.status as WebhookEventStatus
+        )
+      ) {
+        const response = NextResponse.json(
+          {
+            error: "Webhook event cannot be replayed",
+            message: `Only accepted events can be replayed, this one is ${event.status}`,
+            status: event.status,
+          },
+          { status: 409 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+
+      eventIds = [event.eventId];
+    } else {
+      const from = parseDate(body.from);
+      const to = parseDate(body.to) ?? new Date();
+      const status = body.status as WebhookEventStatus | undefined;
+
+      if (!from || from > to) {
+        const response = NextResponse.json(
+          {
+            error: "Invalid replay request",
+            message:
+              'Send { "eventId": "..." } or { "from": "<ISO date>", "to": "<ISO date>", "status"?: "failed" }',
+          },
+          { status: 400 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+
+      if (
+        status !== undefined &&
+        !REPLAYABLE_WEBHOOK_STATUSES.includes(status)
+      ) {
+        const response = NextResponse.json(
+          {
+            error: "Invalid status",
+            message: `Expected one of: ${REPLAYABLE_WEBHOOK_STATUSES.join(", ")}`,
+          },
+          { status: 400 }
+        );
+        return setCorsHeaders(response, origin);
+      }
+
+      eventIds = await findReplayableWebhookEvents(
+        parsedAppId,
+        from,
+        to,
+        status
+      );
+    }
+
+    const queuedIds = await replayWebhookEvents(parsedAppId, eventIds);
+    console.log(
+      `[Webhook Events] Queued ${queuedIds.length} events for replay in app ${parsedAppId}`
+    );
+
+    const response = NextResponse.json(
+      {
+        message: "Replay queued",
+        count: queuedIds.length,
+        truncated: eventIds.length === MAX_REPLAY_EVENTS,
+        eventIds: queuedIds,
+      },
+      { status: 202 }
+    );
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in webhook replay route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import {
+  listWebhookEvents,
+  type WebhookEventStatus,
+} from "../../../../lib/webhooks/webhook_events";
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = [
+  "received",
+  "processing",
+  "processed",
+  "failed",
+  "ignored",
+  "rejected",
+  "duplicate",
+  "superseded",
+];
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+
+    // Optional ?status= filter
+    const status = searchParams.get("status");
+    if (
+      status &&
+      !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)
+    ) {
+      const response = NextResponse.json(
+        {
+          error: "Invalid status",
+          message: `Expected one of: ${WEBHOOK_EVENT_STATUSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Optional ?limit= query parameter, capped to keep responses small
+    const limitParam = searchParams.get("limit");
+    const parsedLimit = limitParam ? parseInt(limitParam) : 50;
+    const limit =
+      isNaN(parsedLimit) || parsedLimit <= 0 ? 50 : Math.min(parsedLimit, 200);
+
+    const events = await listWebhookEvents(parsedAppId, {
+      status: (status as WebhookEventStatus | null) ?? undefined,
+      limit,
+    });
+
+    const response = NextResponse.json({ events });
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in webhook events route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
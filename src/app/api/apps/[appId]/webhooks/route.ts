@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { verifyApiKey } from "../../../../lib/api_key/api_key";
+import { setCorsHeaders } from "../../../../lib/cors";
+import {
+  registerAppWebhooks,
+  removeAppWebhooks,
+  verifyAppWebhooks,
+  WebhooksNotSupportedError,
+} from "../../../../lib/webhooks/registration";
+
+type WebhookAction = "register" | "verify" | "remove";
+
+// Shared handling for the three verbs, which only differ in the action run
+async function handleWebhookRequest(
+  request: Request,
+  params: Promise<{ appId: string }>,
+  action: WebhookAction
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { appId } = await params;
+    const parsedAppId = parseInt(appId);
+
+    if (isNaN(parsedAppId) || parsedAppId <= 0) {
+      const response = NextResponse.json(
+        { error: "Invalid app ID" },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const isValidApiKey = await verifyApiKey(request, parsedAppId);
+    if (!isValidApiKey) {
+      const response = NextResponse.json(
+        { error: "Invalid API key" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const requestOrigin = new URL(request.url).origin;
+    let body: Record<string, unknown> | null;
+    switch (action) {
+      case "register": {
+        const registration = await registerAppWebhooks(
+          parsedAppId,
+          requestOrigin
+        );
+        body = registration
+          ? { message: "Webhooks registered", ...registration }
+          : null;
+        break;
+      }
+      case "verify": {
+        const verification = await verifyAppWebhooks(
+          parsedAppId,
+          requestOrigin
+        );
+        body = verification ? { ...verification } : null;
+        break;
+      }
+      case "remove": {
+        const address = await removeAppWebhooks(parsedAppId, requestOrigin);
+        body = address ? { message: "Webhooks removed", address } : null;
+        break;
+      }
+    }
+
+    if (!body) {
+      const response = NextResponse.json(
+        { error: "App not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const response = NextResponse.json(body);
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    if (error instanceof WebhooksNotSupportedError) {
+      const response = NextResponse.json(
+        { error: "Webhooks not supported", message: error.message },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    console.error(`Error in webhooks route (${action}):`, error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+// Checks that the platform still sends every product topic to this worker
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  return handleWebhookRequest(request, params, "verify");
+}
+
+// Registers (or re-registers) the product webhooks with a fresh secret
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  return handleWebhookRequest(request, params, "register");
+}
+
+// Removes the webhooks and their stored secret
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  return handleWebhookRequest(request, params, "remove");
+}
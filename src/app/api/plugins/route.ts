@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { setCorsHeaders } from "../../lib/cors";
+import { listPlugins } from "../../lib/conversion/conversion_layer";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+// Plugin catalogue: capabilities and config schema of every plugin. It holds
+// no app data, so no API key is needed.
+export async function GET(request: Request) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const response = NextResponse.json({ plugins: listPlugins() });
+    response.headers.set("Cache-Control", "public, max-age=300");
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in plugins route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
@@ -0,0 +1,184 @@
+import { NextResponse } from "next/server";
+import { setCorsHeaders } from "../../../lib/cors";
+import {
+  getShopcadaDeliveryInfo,
+  getShopcadaSigningSecret,
+  getShopcadaWebhookTarget,
+  parseShopcadaWebhook,
+  verifyShopcadaSignature,
+  type ShopcadaWebhookEvent,
+} from "../../../lib/webhooks/shopcada_webhook";
+import {
+  isWithinTolerance,
+  recordWebhookEvent,
+  WEBHOOK_TOLERANCE_SECONDS,
+  type InboundWebhookEvent,
+} from "../../../lib/webhooks/webhook_events";
+
+// Handle preflight OPTIONS requests
+export async function OPTIONS(request: Request) {
+  const origin = request.headers.get("origin");
+  console.log(`[API CORS] OPTIONS request from origin: ${origin}`);
+
+  const response = new NextResponse(null, { status: 200 });
+  return setCorsHeaders(response, origin);
+}
+
+/**
+ * Receives Shopcada product webhooks. Each delivery is logged and checked
+ * against its signature, timestamp and earlier deliveries. Accepted events
+ * are applied later by the import workers, so Shopcada is never kept
+ * waiting on vision or Pinecone.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const origin = request.headers.get("origin");
+
+  try {
+    const { webhookId } = await params;
+
+    const target = await getShopcadaWebhookTarget(webhookId);
+    if (!target) {
+      const response = NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    const rawBody = await request.text();
+    let body: unknown = null;
+    let event: ShopcadaWebhookEvent | null = null;
+    let parseError: string | null = null;
+    try {
+      body = JSON.parse(rawBody);
+      event = parseShopcadaWebhook(
+        body,
+        request.headers.get("x-shopcada-topic") ??
+          request.headers.get("x-shopcada-event")
+      );
+    } catch (error) {
+      parseError =
+        error instanceof Error ? error.message : "Could not parse webhook body";
+    }
+
+    // Each topic's webhook may have its own secret
+    const signature =
+      request.headers.get("x-shopcada-signature") ??
+      request.headers.get("x-shopcada-hmac-sha256");
+    const signatureValid = verifyShopcadaSignature(
+      rawBody,
+      signature,
+      getShopcadaSigningSecret(target, event?.topic ?? null)
+    );
+    const { externalEventId, sentAt } = getShopcadaDeliveryInfo(
+      request.headers,
+      body
+    );
+
+    // Every delivery is logged, whatever happens to it next
+    const inbound: InboundWebhookEvent = {
+      appId: target.appId,
+      headers: request.headers,
+      rawBody,
+      signatureValid,
+      externalEventId,
+      sentAt,
+      topic: event?.topic ?? null,
+      productId: event?.productId ?? null,
+      status: "received",
+    };
+
+    if (!signatureValid) {
+      console.warn(
+        `[Shopcada Webhook] Rejected webhook for app ${target.appId}: invalid signature`
+      );
+      await recordWebhookEvent({
+        ...inbound,
+        status: "rejected",
+        error: "Invalid signature",
+      });
+      const response = NextResponse.json(
+        { error: "Invalid signature" },
+        { status: 401 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (sentAt && !isWithinTolerance(sentAt)) {
+      const recorded = await recordWebhookEvent({
+        ...inbound,
+        status: "rejected",
+        error: `Timestamp ${sentAt.toISOString()} is outside the ${WEBHOOK_TOLERANCE_SECONDS}s tolerance`,
+      });
+      const response = NextResponse.json(
+        { error: "Stale webhook", message: recorded.error },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    if (parseError) {
+      await recordWebhookEvent({
+        ...inbound,
+        status: "rejected",
+        error: parseError,
+      });
+      const response = NextResponse.json(
+        { error: "Invalid webhook payload", message: parseError },
+        { status: 400 }
+      );
+      return setCorsHeaders(response, origin);
+    }
+
+    // Acknowledge topics we do not handle so Shopcada stops retrying them
+    if (!event) {
+      const recorded = await recordWebhookEvent({
+        ...inbound,
+        status: "ignored",
+      });
+      const response = NextResponse.json({
+        status: "ignored",
+        eventId: recorded.eventId,
+      });
+      return setCorsHeaders(response, origin);
+    }
+
+    const recorded = await recordWebhookEvent(inbound);
+    if (recorded.status === "duplicate") {
+      const response = NextResponse.json({
+        status: "duplicate",
+        eventId: recorded.eventId,
+        duplicateOf: recorded.duplicateOf,
+      });
+      return setCorsHeaders(response, origin);
+    }
+
+    // Import workers apply it once the product's burst of updates is over
+    const response = NextResponse.json(
+      {
+        status: "accepted",
+        eventId: recorded.eventId,
+        topic: event.topic,
+        productId: event.productId,
+      },
+      { status: 202 }
+    );
+    return setCorsHeaders(response, origin);
+  } catch (error) {
+    console.error("Error in Shopcada webhook route:", error);
+    const response = NextResponse.json(
+      {
+        error: "Internal server error",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+    return setCorsHeaders(response, origin);
+  }
+}
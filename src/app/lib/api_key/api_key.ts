@@ -1,7 +1,7 @@
 import { db } from "../../../server/db";
 import { apiKeys } from "../../../server/db/schema";
 import { eq, and } from "drizzle-orm";
-import { randomBytes } from "crypto";
+import { randomBytes, timingSafeEqual } from "crypto";
 
 // Private utility function
 async function getApiKey(appId: number): Promise<string | null> {
@@ -70,3 +70,21 @@ export async function verifyApiKey(
 
   return existingKey === apiKey;
 }
+
+/**
+ * Checks the bearer token against ADMIN_API_KEY, the operator credential for
+ * endpoints an app's own API key must not reach. Always false when unset.
+ */
+export function verifyAdminKey(request: Request): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const authHeader = request.headers.get("authorization");
+  if (!adminKey || !authHeader?.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const received = Buffer.from(authHeader.substring(7));
+  const expected = Buffer.from(adminKey);
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
@@ -0,0 +1,274 @@
+import { db } from "../../../server/db";
+import {
+  appCallbacks,
+  callbackDeliveries,
+  importJobEvents,
+  importJobs,
+} from "../../../server/db/schema";
+import { eq, and, asc, desc } from "drizzle-orm";
+import { createHmac, randomBytes } from "crypto";
+import {
+  allowPrivateTargets,
+  getHostname,
+  isPrivateAddress,
+} from "../public_fetch";
+import type {
+  ImportJobStatus,
+  ImportProgressEvent,
+} from "../import_job/import_job";
+
+export type ImportCallbackEvent = "import.completed" | "import.failed";
+
+export type ImportCallbackFailure = Omit<
+  Extract<ImportProgressEvent, { type: "failure" }>,
+  "type"
+>;
+
+/**
+ * JSON body POSTed to an app's callback URLs when an import finishes
+ */
+export interface ImportCallbackPayload {
+  event: ImportCallbackEvent;
+  appId: number;
+  jobId: string;
+  trigger: string;
+  status: ImportJobStatus;
+  message: string | null;
+  imported_count: number;
+  failed_count: number;
+  failures: ImportCallbackFailure[];
+  error: string | null;
+  durationMs: number | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export type AppCallback = typeof appCallbacks.$inferSelect;
+
+// Callbacks as listed to clients, the secret is only shown once on creation
+export type PublicAppCallback = Omit<AppCallback, "secret">;
+
+export type CallbackDelivery = typeof callbackDeliveries.$inferSelect;
+
+export type CallbackDeliveryStatus = "pending" | "delivered" | "failed";
+
+// Failures listed in a payload, the full list stays in the job's events
+const MAX_PAYLOAD_FAILURES = 100;
+
+const publicColumns = {
+  callbackId: true,
+  appId: true,
+  url: true,
+  isActive: true,
+  dateCreated: true,
+  dateUpdated: true,
+} as const;
+
+/**
+ * Checks the URL's shape: https (http too in development), and not a
+ * localhost name or private IP literal. Names that resolve to private
+ * addresses are caught by resolvesToPublicAddress on creation, and again
+ * when a delivery connects, since DNS records can change.
+ */
+export function isValidCallbackUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  // Local development may call back to http://localhost
+  if (allowPrivateTargets) {
+    return parsed.protocol === "https:" || parsed.protocol === "http:";
+  }
+
+  const hostname = getHostname(parsed).toLowerCase();
+  return (
+    parsed.protocol === "https:" &&
+    hostname !== "localhost" &&
+    !hostname.endsWith(".localhost") &&
+    !isPrivateAddress(hostname)
+  );
+}
+
+/**
+ * Hex HMAC-SHA256 over "<timestamp>.<body>", sent as
+ * `X-StyleSeeker-Signature: t=<timestamp>,v1=<signature>`
+ */
+export function signCallbackBody(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+export async function listCallbacks(
+  appId: number
+): Promise<PublicAppCallback[]> {
+  return db.query.appCallbacks.findMany({
+    where: and(eq(appCallbacks.appId, appId), eq(appCallbacks.isActive, true)),
+    columns: publicColumns,
+    orderBy: asc(appCallbacks.callbackId),
+  });
+}
+
+export async function getCallback(
+  appId: number,
+  callbackId: number
+): Promise<PublicAppCallback | null> {
+  const callback = await db.query.appCallbacks.findFirst({
+    where: and(
+      eq(appCallbacks.appId, appId),
+      eq(appCallbacks.callbackId, callbackId)
+    ),
+    columns: publicColumns,
+  });
+  return callback ?? null;
+}
+
+/**
+ * Registers a callback URL with a fresh signing secret
+ */
+export async function createCallback(
+  appId: number,
+  url: string
+): Promise<AppCallback> {
+  const [callback] = await db
+    .insert(appCallbacks)
+    .values({ appId, url, secret: randomBytes(32).toString("hex") })
+    .returning();
+
+  if (!callback) {
+    throw new Error(`Failed to create callback for app ${appId}`);
+  }
+  return callback;
+}
+
+/**
+ * Deactivates a callback, keeping its delivery log. Deliveries still waiting
+ * for a retry are given up.
+ */
+export async function removeCallback(
+  appId: number,
+  callbackId: number
+): Promise<boolean> {
+  const [removed] = await db
+    .update(appCallbacks)
+    .set({ isActive: false })
+    .where(
+      and(
+        eq(appCallbacks.appId, appId),
+        eq(appCallbacks.callbackId, callbackId),
+        eq(appCallbacks.isActive, true)
+      )
+    )
+    .returning({ callbackId: appCallbacks.callbackId });
+
+  if (!removed) return false;
+
+  await db
+    .update(callbackDeliveries)
+    .set({ status: "failed", error: "Callback was removed" })
+    .where(
+      and(
+        eq(callbackDeliveries.callbackId, callbackId),
+        eq(callbackDeliveries.status, "pending")
+      )
+    );
+  return true;
+}
+
+export async function listCallbackDeliveries(
+  callbackId: number,
+  limit = 50
+): Promise<CallbackDelivery[]> {
+  return db.query.callbackDeliveries.findMany({
+    where: eq(callbackDeliveries.callbackId, callbackId),
+    orderBy: desc(callbackDeliveries.dateCreated),
+    limit,
+  });
+}
+
+/**
+ * Queues a delivery to every active callback of the job's app once the job
+ * has completed or failed. Other outcomes are not announced.
+ * Returns the number of deliveries queued.
+ */
+export async function enqueueJobCallbacks(jobId: string): Promise<number> {
+  const job = await db.query.importJobs.findFirst({
+    where: eq(importJobs.jobId, jobId),
+  });
+  if (!job) return 0;
+
+  let event: ImportCallbackEvent;
+  if (job.status === "completed") {
+    event = "import.completed";
+  } else if (job.status === "failed" || job.status === "interrupted") {
+    event = "import.failed";
+  } else {
+    return 0;
+  }
+
+  const callbacks = await db.query.appCallbacks.findMany({
+    where: and(
+      eq(appCallbacks.appId, job.appId),
+      eq(appCallbacks.isActive, true)
+    ),
+    columns: { callbackId: true },
+  });
+  if (callbacks.length === 0) return 0;
+
+  const failureEvents = await db.query.importJobEvents.findMany({
+    where: and(
+      eq(importJobEvents.jobId, jobId),
+      eq(importJobEvents.type, "failure")
+    ),
+    orderBy: asc(importJobEvents.sequence),
+    limit: MAX_PAYLOAD_FAILURES,
+  });
+
+  const payload: ImportCallbackPayload = {
+    event,
+    appId: job.appId,
+    jobId: job.jobId,
+    trigger: job.trigger,
+    status: job.status as ImportJobStatus,
+    message: job.result?.message ?? null,
+    imported_count: job.result?.imported_count ?? job.processedProducts,
+    failed_count: job.failedProducts,
+    failures: failureEvents.map(({ data }) => {
+      const failure = data as Extract<ImportProgressEvent, { type: "failure" }>;
+      return {
+        stage: failure.stage,
+        message: failure.message,
+        batch: failure.batch,
+        productId: failure.productId,
+      };
+    }),
+    error: job.error,
+    durationMs:
+      job.startedAt && job.finishedAt
+        ? job.finishedAt.getTime() - job.startedAt.getTime()
+        : null,
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  };
+
+  const queued = await db
+    .insert(callbackDeliveries)
+    .values(
+      callbacks.map(({ callbackId }) => ({
+        callbackId,
+        jobId,
+        event,
+        payload,
+      }))
+    )
+    .returning({ deliveryId: callbackDeliveries.deliveryId });
+
+  return queued.length;
+}
@@ -0,0 +1,174 @@
+import { db } from "../../../server/db";
+import { appCallbacks, callbackDeliveries } from "../../../server/db/schema";
+import { eq, and, asc, inArray, lte, sql } from "drizzle-orm";
+import { fetchPublic } from "../public_fetch";
+import {
+  signCallbackBody,
+  type CallbackDelivery,
+  type CallbackDeliveryStatus,
+} from "./callbacks";
+
+// A delivery is given up after this many failed attempts
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+// Retry delay doubles from the base after every failed attempt, up to the max
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// How long the receiving app has to answer
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A claimed delivery is hidden from other workers for this long
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// Deliveries attempted per pass, the rest wait for the next pass
+const DELIVERIES_PER_PASS = 20;
+
+interface ClaimedDelivery {
+  delivery: CallbackDelivery;
+  url: string;
+  secret: string;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS
+  );
+}
+
+/**
+ * Claims due deliveries and counts the attempt up front, so a worker that
+ * dies mid-request still uses up an attempt.
+ * FOR UPDATE SKIP LOCKED plus the lease keeps workers from sending twice.
+ */
+async function claimDueDeliveries(): Promise<ClaimedDelivery[]> {
+  return db.transaction(async (tx) => {
+    const due = await tx
+      .select({
+        delivery: callbackDeliveries,
+        url: appCallbacks.url,
+        secret: appCallbacks.secret,
+      })
+      .from(callbackDeliveries)
+      .innerJoin(
+        appCallbacks,
+        eq(appCallbacks.callbackId, callbackDeliveries.callbackId)
+      )
+      .where(
+        and(
+          eq(callbackDeliveries.status, "pending"),
+          lte(callbackDeliveries.nextAttemptAt, new Date()),
+          eq(appCallbacks.isActive, true)
+        )
+      )
+      .orderBy(asc(callbackDeliveries.nextAttemptAt))
+      .limit(DELIVERIES_PER_PASS)
+      .for("update", { of: callbackDeliveries, skipLocked: true });
+
+    if (due.length === 0) return [];
+
+    await tx
+      .update(callbackDeliveries)
+      .set({
+        attempts: sql`${callbackDeliveries.attempts} + 1`,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+      })
+      .where(
+        inArray(
+          callbackDeliveries.deliveryId,
+          due.map(({ delivery }) => delivery.deliveryId)
+        )
+      );
+
+    return due.map((claimed) => ({
+      ...claimed,
+      delivery: {
+        ...claimed.delivery,
+        attempts: claimed.delivery.attempts + 1,
+      },
+    }));
+  });
+}
+
+/**
+ * POSTs the signed payload once and records the outcome, scheduling a retry
+ * with exponential backoff when the receiver does not answer with a 2xx
+ */
+async function attemptDelivery({
+  delivery,
+  url,
+  secret,
+}: ClaimedDelivery): Promise<CallbackDeliveryStatus> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Refuses private addresses and doesn't follow redirects
+    const response = await fetchPublic(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "StyleSeeker-Import-Worker",
+        "X-StyleSeeker-Event": delivery.event,
+        "X-StyleSeeker-Delivery": delivery.deliveryId,
+        "X-StyleSeeker-Signature": `t=${timestamp},v1=${signCallbackBody(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Callback responded with ${response.status} ${response.statusText}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : "Unknown error";
+  }
+
+  const now = new Date();
+  const status: CallbackDeliveryStatus =
+    error === null
+      ? "delivered"
+      : delivery.attempts >= MAX_DELIVERY_ATTEMPTS
+        ? "failed"
+        : "pending";
+
+  await db
+    .update(callbackDeliveries)
+    .set({
+      status,
+      responseStatus,
+      error,
+      lastAttemptAt: now,
+      deliveredAt: status === "delivered" ? now : null,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs(delivery.attempts)),
+    })
+    .where(eq(callbackDeliveries.deliveryId, delivery.deliveryId));
+
+  if (error !== null) {
+    console.warn(
+      `[Callbacks] Delivery ${delivery.deliveryId} to ${url} failed (attempt ${delivery.attempts}/${MAX_DELIVERY_ATTEMPTS}): ${error}`
+    );
+  }
+  return status;
+}
+
+/**
+ * Sends every callback delivery that is due, first attempts and retries alike
+ */
+export async function deliverDueCallbacks(): Promise<{
+  delivered: number;
+  retrying: number;
+  failed: number;
+}> {
+  const claimed = await claimDueDeliveries();
+  const statuses = await Promise.all(claimed.map(attemptDelivery));
+
+  return {
+    delivered: statuses.filter((status) => status === "delivered").length,
+    retrying: statuses.filter((status) => status === "pending").length,
+    failed: statuses.filter((status) => status === "failed").length,
+  };
+}
@@ -0,0 +1,65 @@
+import { db } from "../../../server/db";
+import { apps } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import createApp from "../conversion/conversion_layer";
+import { App, type ConnectionTestResult } from "../conversion/plugin_class";
+import { connectionFailure } from "../conversion/connection_probe";
+
+/**
+ * Thrown when the app's plugin has no connection to test
+ */
+export class ConnectionTestNotSupportedError extends Error {
+  constructor(pluginName: string) {
+    super(`Plugin ${pluginName} does not support connection tests`);
+    this.name = "ConnectionTestNotSupportedError";
+  }
+}
+
+export interface AppConnectionTest extends ConnectionTestResult {
+  pluginName: string;
+  testedAt: Date;
+}
+
+/**
+ * Checks the app's plugin configuration against its platform without
+ * starting an import. Returns null when the app does not exist.
+ */
+export async function testAppConnection(
+  appId: number
+): Promise<AppConnectionTest | null> {
+  const [app] = await db
+    .select({ pluginName: apps.pluginName })
+    .from(apps)
+    .where(eq(apps.appId, appId))
+    .limit(1);
+  if (!app) return null;
+
+  if (!App.supports(app.pluginName, "connectionTest")) {
+    throw new ConnectionTestNotSupportedError(app.pluginName);
+  }
+  const plugin = createApp(app.pluginName, String(appId));
+  if (!plugin.testConnection) {
+    throw new ConnectionTestNotSupportedError(app.pluginName);
+  }
+
+  const testedAt = new Date();
+  try {
+    // Plugins refuse to initialize without their configuration row
+    await plugin.init();
+  } catch (error) {
+    return {
+      pluginName: app.pluginName,
+      testedAt,
+      ...connectionFailure(
+        "not_configured",
+        error instanceof Error ? error.message : "Plugin failed to initialize"
+      ),
+    };
+  }
+
+  const result = await plugin.testConnection();
+  console.log(
+    `[Connection Test] App ${appId} (${app.pluginName}): ${result.ok ? "ok" : result.problem} in ${result.durationMs}ms`
+  );
+  return { pluginName: app.pluginName, testedAt, ...result };
+}
@@ -0,0 +1,276 @@
+import type {
+  ConnectionProblem,
+  ConnectionTestResult,
+  Product,
+} from "./plugin_class";
+import { fetchPublic, PrivateAddressError } from "../public_fetch";
+
+/**
+ * Thrown while reading a probe response that is not what the platform sends
+ */
+export class ConnectionProbeError extends Error {
+  constructor(
+    public readonly problem: ConnectionProblem,
+    message: string
+  ) {
+    super(message);
+    this.name = "ConnectionProbeError";
+  }
+}
+
+export interface ConnectionProbe {
+  url: string;
+  init?: RequestInit;
+  // Raw products in the response body, throws ConnectionProbeError otherwise
+  readProducts(body: string): unknown[];
+  toProduct(product: unknown): Product;
+  hints?: Partial<Record<ConnectionProblem, string>>; // platform-specific advice
+}
+
+// A test should answer quickly, an import's retries are not wanted here
+const PROBE_TIMEOUT_MS = 10000;
+
+const DEFAULT_HINTS: Record<ConnectionProblem, string> = {
+  not_configured: "Save the plugin configuration before testing it.",
+  invalid_url: "Check the configured URL for typos.",
+  missing_protocol:
+    "Include the protocol in the configured URL, e.g. https://shop.example.com.",
+  private_address:
+    "The URL points at a local or private network address. Use the platform's public URL.",
+  dns: "The host name does not resolve. Check it for typos and that the domain exists.",
+  tls: "The server's TLS certificate was rejected. Check that it is valid, not expired and issued for this host name.",
+  connection:
+    "The server refused or dropped the connection. Check that the service is running and reachable from the internet.",
+  timeout: "The server did not answer in time. Check that it is reachable.",
+  unauthorized: "The credentials were rejected. Check that they are current.",
+  forbidden: "The credentials are valid but lack permission to read products.",
+  not_found:
+    "The products endpoint was not found. Check the configured URL and API version.",
+  rate_limited: "The platform is rate limiting requests. Try again shortly.",
+  server_error: "The platform reported an internal error. Try again later.",
+  unexpected_status: "The platform answered with an unexpected status.",
+  malformed_response:
+    "The URL answered, but not with the platform's product API. Check that it points at the API and not at the storefront.",
+  invalid_product:
+    "Products were returned but could not be converted. Check that the API returns the expected fields.",
+};
+
+// Node's fetch hides the system error code in its cause
+function getErrorCode(error: unknown): string | undefined {
+  const cause = (error as { cause?: unknown } | null)?.cause as
+    | { code?: string; errors?: Array<{ code?: string }> }
+    | undefined;
+  return cause?.code ?? cause?.errors?.find((inner) => inner.code)?.code;
+}
+
+function classifyNetworkError(error: unknown): ConnectionProblem {
+  if (
+    error instanceof Error &&
+    (error.name === "TimeoutError" || error.name === "AbortError")
+  ) {
+    return "timeout";
+  }
+
+  const code = getErrorCode(error) ?? "";
+  if (code === "ENOTFOUND" || code === "EAI_AGAIN") return "dns";
+  if (code === "UND_ERR_CONNECT_TIMEOUT" || code === "ETIMEDOUT") {
+    return "timeout";
+  }
+  if (
+    /CERT|SSL|TLS/.test(code) ||
+    code === "EPROTO" ||
+    code === "UNABLE_TO_VERIFY_LEAF_SIGNATURE"
+  ) {
+    return "tls";
+  }
+  return "connection";
+}
+
+function classifyStatus(status: number): ConnectionProblem {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "unexpected_status";
+}
+
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Credentials in the URL never leave the test
+function redactUrl(url: URL): string {
+  const redacted = new URL(url);
+  redacted.username = "";
+  redacted.password = "";
+  return redacted.toString();
+}
+
+/**
+ * Parses a JSON response body for readProducts
+ */
+export function parseJsonBody(body: string): unknown {
+  try {
+    return JSON.parse(body) as unknown;
+  } catch {
+    throw new ConnectionProbeError(
+      "malformed_response",
+      body.trim() ? "Response is not JSON" : "Response body is empty"
+    );
+  }
+}
+
+/**
+ * Result for a test that could not reach the platform at all
+ */
+export function connectionFailure(
+  problem: ConnectionProblem,
+  message: string,
+  details: Partial<ConnectionTestResult> = {}
+): ConnectionTestResult {
+  return {
+    ok: false,
+    problem,
+    message,
+    hint: DEFAULT_HINTS[problem],
+    url: null,
+    status: null,
+    durationMs: 0,
+    sampleFields: [],
+    sampleProduct: null,
+    ...details,
+  };
+}
+
+/**
+ * Fetches one product from the platform and explains what went wrong,
+ * from an unusable URL up to a product that fails conversion
+ */
+export async function probeConnection(
+  probe: ConnectionProbe
+): Promise<ConnectionTestResult> {
+  const hints = { ...DEFAULT_HINTS, ...probe.hints };
+  const startedAt = Date.now();
+
+  // "shop.example.com/api" fails to parse and "shop.example.com:443/api"
+  // parses with the host name as protocol
+  const url = parseHttpUrl(probe.url);
+  if (url && (url.username || url.password)) {
+    return {
+      ...connectionFailure(
+        "invalid_url",
+        "URLs with embedded credentials cannot be fetched"
+      ),
+      hint: hints.invalid_url,
+    };
+  }
+  if (!url) {
+    const problem = /^[a-z][a-z0-9+.-]*:\/\//i.test(probe.url)
+      ? "invalid_url"
+      : "missing_protocol";
+    return {
+      ...connectionFailure(problem, `"${probe.url}" is not an http(s) URL`),
+      hint: hints[problem],
+    };
+  }
+
+  const result = (
+    problem: ConnectionProblem | null,
+    message: string,
+    details: Partial<ConnectionTestResult> = {}
+  ): ConnectionTestResult => ({
+    ok: problem === null,
+    problem,
+    message,
+    hint: problem ? hints[problem] : null,
+    url: redactUrl(url),
+    status: null,
+    durationMs: Date.now() - startedAt,
+    sampleFields: [],
+    sampleProduct: null,
+    ...details,
+  });
+
+  // The URL comes from the merchant, so private addresses are refused and
+  // response bodies are never echoed back to the caller
+  let response: Response;
+  let body: string;
+  try {
+    response = await fetchPublic(url, {
+      ...probe.init,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    body = await response.text();
+  } catch (error) {
+    if (error instanceof PrivateAddressError) {
+      return result("private_address", error.message);
+    }
+
+    const problem = classifyNetworkError(error);
+    const code = getErrorCode(error);
+    // "fetch failed" says nothing, the cause does
+    const cause = error instanceof Error ? error.cause : undefined;
+    const reason =
+      cause instanceof Error && cause.message
+        ? cause.message
+        : error instanceof Error
+          ? error.message
+          : "Unknown error";
+    return result(
+      problem,
+      `Request to ${url.host} failed: ${reason}${code ? ` (${code})` : ""}`
+    );
+  }
+
+  const status = response.status;
+  if (!response.ok) {
+    return result(
+      classifyStatus(status),
+      `${url.host} responded ${status} ${response.statusText}`,
+      { status }
+    );
+  }
+
+  let products: unknown[];
+  try {
+    products = probe.readProducts(body);
+  } catch (error) {
+    return error instanceof ConnectionProbeError
+      ? result(error.problem, error.message, { status })
+      : result(
+          "malformed_response",
+          error instanceof Error ? error.message : "Unreadable response",
+          { status }
+        );
+  }
+
+  const [sample] = products;
+  if (sample === undefined) {
+    return result(null, "Connected, but the catalog has no products yet", {
+      status,
+    });
+  }
+
+  const sampleFields =
+    sample && typeof sample === "object" ? Object.keys(sample) : [];
+  try {
+    const sampleProduct = probe.toProduct(sample);
+    return result(null, "Connected and read a sample product", {
+      status,
+      sampleFields,
+      sampleProduct,
+    });
+  } catch (error) {
+    return result(
+      "invalid_product",
+      `Sample product could not be converted: ${error instanceof Error ? error.message : "Unknown error"}`,
+      { status, sampleFields }
+    );
+  }
+}
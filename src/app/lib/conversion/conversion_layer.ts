@@ -1,7 +1,15 @@
-import { App } from "./plugin_class";
+import { App, type PluginDescriptor } from "./plugin_class";
+import { FeedPluginInfo } from "./feed";
+import { GoogleMerchantPluginInfo } from "./google_merchant";
 import { ShopcadaPluginInfo } from "./shopcada";
+import { ShopifyPluginInfo } from "./shopify";
+import { WooCommercePluginInfo } from "./woocommerce";
 
 App.register("shopcada", ShopcadaPluginInfo);
+App.register("shopify", ShopifyPluginInfo);
+App.register("woocommerce", WooCommercePluginInfo);
+App.register("feed", FeedPluginInfo);
+App.register("google_merchant", GoogleMerchantPluginInfo);
 
 const createApp = (plugin_name: string, app_id: string) => {
   const AppClass = App.registry[plugin_name];
@@ -11,4 +19,11 @@ const createApp = (plugin_name: string, app_id: string) => {
   return new AppClass(app_id);
 };
 
+// Every registered plugin with its descriptor, for the plugin catalogue
+export const listPlugins = (): Array<PluginDescriptor & { name: string }> =>
+  Object.entries(App.registry).map(([name, AppClass]) => ({
+    name,
+    ...AppClass.descriptor,
+  }));
+
 export default createApp;
@@ -0,0 +1,69 @@
+import {
+  App,
+  type PluginDescriptor,
+  type Product,
+  type ProductList,
+} from "./plugin_class";
+import { getLatestFeedProducts } from "../feed/feed";
+
+/**
+ * Catalog uploaded by the merchant as a CSV, JSON or NDJSON feed. Rows are
+ * mapped and validated on upload, so an import replays the latest upload.
+ */
+export class FeedPlugin extends App {
+  static descriptor: PluginDescriptor = {
+    displayName: "Product feed upload",
+    description:
+      "Imports CSV, JSON or NDJSON feeds uploaded to /api/apps/[appId]/feed.",
+    configTable: null, // the column mapping is sent with uploads
+    configSchema: [],
+    capabilities: {
+      singleProductFetch: false,
+      webhooks: false,
+      incrementalSync: false,
+      variants: false,
+      connectionTest: false,
+    },
+  };
+
+  async init(): Promise<void> {
+    // Nothing to connect to, products come from uploads
+  }
+
+  async getAllProducts(): Promise<ProductList> {
+    const products = await getLatestFeedProducts(parseInt(this.app_id));
+    if (!products) {
+      throw new Error("No product feed has been uploaded for this app");
+    }
+
+    console.log(`[Feed] Loaded ${products.length} products from latest upload`);
+    return {
+      products: products.map((product) => this.processProduct(product)),
+    };
+  }
+
+  public processProduct(product: unknown): Product {
+    if (!product || typeof product !== "object") {
+      throw new Error("Invalid product data provided");
+    }
+
+    const productObj = product as Partial<Product>;
+    if (!productObj.product_id || !productObj.name) {
+      throw new Error("Product must have product_id and name fields");
+    }
+
+    return {
+      product_id: productObj.product_id,
+      name: productObj.name,
+      description: productObj.description ?? "",
+      images: productObj.images,
+      isPublished: productObj.isPublished ?? true,
+    };
+  }
+
+  async updateProduct(productInfo: unknown): Promise<Product> {
+    return this.processProduct(productInfo);
+  }
+}
+
+export { FeedPlugin as FeedPluginInfo };
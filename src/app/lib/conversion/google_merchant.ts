@@ -0,0 +1,349 @@
+import { createHash } from "crypto";
+import {
+  App,
+  type ConnectionTestResult,
+  type FetchCheckpoint,
+  type PluginDescriptor,
+  type Product,
+  type ProductList,
+} from "./plugin_class";
+import { db } from "../../../server/db";
+import {
+  importJobs,
+  pluginConfigGoogleMerchant,
+} from "../../../server/db/schema";
+import { and, eq, gte } from "drizzle-orm";
+import { readXmlItems, type XmlFields } from "../feed/xml";
+import {
+  ConnectionProbeError,
+  connectionFailure,
+  probeConnection,
+} from "./connection_probe";
+
+export type GoogleMerchantConfig =
+  typeof pluginConfigGoogleMerchant.$inferSelect;
+
+// Fetching a large feed may take a while, but not forever
+const FETCH_TIMEOUT_MS = 120000;
+
+// Failed or rate-limited fetches are retried this many times
+const MAX_FETCH_ATTEMPTS = 3;
+
+const FEED_ACCEPT =
+  "application/rss+xml, application/atom+xml, application/xml, text/xml";
+
+// The whole feed is one checkpoint page, a resumed import reuses it
+const FEED_PAGE = 1;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// A feed cut off mid-transfer still parses, but silently loses items
+function isCompleteFeed(xml: string): boolean {
+  return /<\/(rss|feed)\s*>\s*$/i.test(xml);
+}
+
+/**
+ * Product ids must be numeric. Merchant Center ids are often SKUs, so
+ * those get a stable id derived from their hash (48 bits, a safe integer).
+ */
+export function toNumericProductId(id: string): number {
+  if (/^\d+$/.test(id) && Number.isSafeInteger(Number(id)) && Number(id) > 0) {
+    return Number(id);
+  }
+  return createHash("sha256").update(id).digest().readUIntBE(0, 6) || 1;
+}
+
+export class GoogleMerchantPlugin extends App {
+  static descriptor: PluginDescriptor = {
+    displayName: "Google Merchant Center",
+    description:
+      "Imports products from a Google Shopping RSS or Atom feed. Unchanged feeds are skipped.",
+    configTable: "plugin_config_google_merchant",
+    configSchema: [
+      {
+        key: "feed_url",
+        label: "Feed URL",
+        type: "url",
+        required: true,
+        description: "Must be reachable without logging in.",
+        placeholder: "https://shop.example.com/feeds/google.xml",
+      },
+    ],
+    capabilities: {
+      singleProductFetch: false,
+      webhooks: false,
+      incrementalSync: true,
+      variants: false,
+      connectionTest: true,
+    },
+  };
+
+  private config: GoogleMerchantConfig | null = null;
+  // Validators are only saved back to a configuration loaded from its row
+  private configStored = false;
+
+  async init(): Promise<void> {
+    const [config] = await db
+      .select()
+      .from(pluginConfigGoogleMerchant)
+      .where(eq(pluginConfigGoogleMerchant.appId, parseInt(this.app_id)))
+      .limit(1);
+
+    if (!config) {
+      throw new Error("Google Merchant Center plugin configuration not found");
+    }
+
+    this.configure(config);
+    this.configStored = true;
+  }
+
+  /**
+   * Applies a configuration row. init() loads it from the database, the
+   * conformance kit passes one directly.
+   */
+  configure(config: GoogleMerchantConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Saved validators are only sent once an import of that fetch completed,
+   * so a failed or interrupted import is never skipped as unchanged
+   */
+  private async canSendValidators(
+    config: GoogleMerchantConfig
+  ): Promise<boolean> {
+    if ((!config.etag && !config.lastModified) || !config.dateFetched) {
+      return false;
+    }
+
+    const completedJob = await db.query.importJobs.findFirst({
+      where: and(
+        eq(importJobs.appId, config.appId),
+        eq(importJobs.status, "completed"),
+        gte(importJobs.finishedAt, config.dateFetched)
+      ),
+      columns: { jobId: true },
+    });
+    return !!completedJob;
+  }
+
+  private async fetchFeed(headers: Record<string, string>): Promise<Response> {
+    if (!this.config) {
+      throw new Error("Google Merchant Center plugin not initialized");
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(this.config.feedUrl, {
+          headers: {
+            Accept: FEED_ACCEPT,
+            ...headers,
+          },
+          signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+
+        const retryable = response.status === 429 || response.status >= 500;
+        if (!retryable || attempt >= MAX_FETCH_ATTEMPTS) {
+          return response;
+        }
+
+        const retryAfter = parseInt(response.headers.get("retry-after") ?? "");
+        const waitMs = isNaN(retryAfter) ? 2000 * attempt : retryAfter * 1000;
+        console.warn(
+          `[Google Merchant] Feed returned ${response.status}, retrying in ${waitMs}ms (attempt ${attempt}/${MAX_FETCH_ATTEMPTS})`
+        );
+        await sleep(waitMs);
+      } catch (error) {
+        if (attempt >= MAX_FETCH_ATTEMPTS) throw error;
+        console.warn(
+          `[Google Merchant] Feed request failed, retrying (attempt ${attempt}/${MAX_FETCH_ATTEMPTS}):`,
+          error
+        );
+        await sleep(2000 * attempt);
+      }
+    }
+  }
+
+  async getAllProducts(checkpoint?: FetchCheckpoint): Promise<ProductList> {
+    if (!this.config) {
+      throw new Error("Google Merchant Center plugin not initialized");
+    }
+
+    // Reuse the feed fetched by an interrupted run instead of fetching it again
+    const savedProducts = checkpoint?.fetchedPages.get(FEED_PAGE);
+    if (savedProducts) {
+      console.log(
+        `[Google Merchant] Restored ${savedProducts.length} products from checkpoint`
+      );
+      return { products: savedProducts };
+    }
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (await this.canSendValidators(this.config)) {
+      if (this.config.etag) {
+        conditionalHeaders["If-None-Match"] = this.config.etag;
+      }
+      if (this.config.lastModified) {
+        conditionalHeaders["If-Modified-Since"] = this.config.lastModified;
+      }
+    }
+
+    const response = await this.fetchFeed(conditionalHeaders);
+
+    if (response.status === 304) {
+      console.log(
+        `[Google Merchant] Feed not modified since ${this.config.dateFetched?.toISOString()}, skipping`
+      );
+      return { products: [], unchanged: true };
+    }
+
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch products: feed returned ${response.status} ${response.statusText}`
+      );
+    }
+
+    const xml = await response.text();
+    if (!isCompleteFeed(xml)) {
+      throw new Error(
+        "Failed to fetch products: feed URL did not return a complete RSS or Atom feed"
+      );
+    }
+    const items = readXmlItems(xml, ["item", "entry"]);
+
+    const products: Product[] = [];
+    const seenIds = new Set<number>();
+    for (const item of items) {
+      try {
+        const product = this.processProduct(item);
+        if (seenIds.has(product.product_id)) {
+          console.warn(
+            `[Google Merchant] Skipping duplicate item ${product.product_id}`
+          );
+          continue;
+        }
+        seenIds.add(product.product_id);
+        products.push(product);
+      } catch (error) {
+        console.warn(
+          `[Google Merchant] Skipping item:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    await checkpoint?.savePage(FEED_PAGE, products);
+    if (this.configStored) {
+      await db
+        .update(pluginConfigGoogleMerchant)
+        .set({
+          etag: response.headers.get("etag"),
+          lastModified: response.headers.get("last-modified"),
+          dateFetched: new Date(),
+        })
+        .where(eq(pluginConfigGoogleMerchant.appId, this.config.appId));
+    }
+
+    console.log(
+      `[Google Merchant] Fetched ${products.length} products from ${items.length} feed items`
+    );
+    return { products };
+  }
+
+  public processProduct(product: unknown): Product {
+    if (!product || typeof product !== "object") {
+      throw new Error("Invalid product data provided");
+    }
+
+    const item = product as XmlFields;
+    // RSS and Atom fields without the g: prefix are accepted as fallbacks
+    const first = (...names: string[]) =>
+      names
+        .map((name) => item[name]?.find((value) => value !== ""))
+        .find((value) => value !== undefined);
+    const all = (...names: string[]) =>
+      names.flatMap((name) => item[name] ?? []).filter(Boolean);
+
+    const id = first("g:id", "id");
+    const title = first("g:title", "title");
+    if (!id || !title) {
+      throw new Error("Item must have g:id and g:title fields");
+    }
+
+    const description = (first("g:description", "description", "summary") ?? "")
+      .replace(/<[^>]*>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    // Product types are "Apparel > Dresses > Maxi Dresses" paths
+    const categories = all("g:product_type");
+    // Several colours are separated by "/"
+    const colors = all("g:color").flatMap((color) =>
+      color
+        .split("/")
+        .map((part) => part.trim())
+        .filter(Boolean)
+    );
+
+    const finalDescription = [
+      description,
+      categories.length > 0 && `Categories: ${categories.join(", ")}`,
+      colors.length > 0 && `Colors: ${colors.join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const images = [...new Set(all("g:image_link", "g:additional_image_link"))];
+
+    // Out of stock items stay indexed but are hidden from search
+    const availability = first("g:availability")
+      ?.toLowerCase()
+      .replace(/\s+/g, "_");
+
+    return {
+      product_id: toNumericProductId(id),
+      name: title,
+      description: finalDescription,
+      images: images.length > 0 ? images : undefined,
+      isPublished: availability !== "out_of_stock",
+    };
+  }
+
+  async updateProduct(productInfo: unknown): Promise<Product> {
+    return this.processProduct(productInfo);
+  }
+
+  /**
+   * Fetches the feed and converts its first item
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    if (!this.config) {
+      return connectionFailure("not_configured", "A feed URL is required");
+    }
+
+    return probeConnection({
+      url: this.config.feedUrl,
+      init: { headers: { Accept: FEED_ACCEPT } },
+      readProducts: (body) => {
+        if (!isCompleteFeed(body)) {
+          throw new ConnectionProbeError(
+            "malformed_response",
+            "Feed URL did not return a complete RSS or Atom feed"
+          );
+        }
+        return readXmlItems(body, ["item", "entry"]);
+      },
+      toProduct: (product) => this.processProduct(product),
+      hints: {
+        not_found:
+          "The feed was not found. Check the feed URL, e.g. the one shown for a scheduled fetch in Merchant Center.",
+        unauthorized:
+          "The feed requires credentials. Publish it at a URL that can be fetched without logging in.",
+      },
+    });
+  }
+}
+
+export { GoogleMerchantPlugin as GoogleMerchantPluginInfo };
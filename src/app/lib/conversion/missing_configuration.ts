@@ -0,0 +1,77 @@
+import { db } from "../../../server/db";
+import {
+  pluginConfigShopcada,
+  pluginConfigShopify,
+  pluginConfigWooCommerce,
+  pluginConfigGoogleMerchant,
+  feedUploads,
+} from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+
+// Returns what is missing from the plugin's configuration, or null when it can import
+export async function getMissingConfiguration(
+  pluginName: string,
+  appId: number
+): Promise<string | null> {
+  switch (pluginName) {
+    case "shopcada": {
+      const [config] = await db
+        .select()
+        .from(pluginConfigShopcada)
+        .where(eq(pluginConfigShopcada.appId, appId))
+        .limit(1);
+
+      return !config?.apiHostname || !config?.apiKey
+        ? "App is not properly configured. API hostname and API key are required for importing products."
+        : null;
+    }
+    case "shopify": {
+      const [config] = await db
+        .select()
+        .from(pluginConfigShopify)
+        .where(eq(pluginConfigShopify.appId, appId))
+        .limit(1);
+
+      return !config?.shopDomain || !config?.accessToken
+        ? "App is not properly configured. Shop domain and Admin API access token are required for importing products."
+        : null;
+    }
+    case "woocommerce": {
+      const [config] = await db
+        .select()
+        .from(pluginConfigWooCommerce)
+        .where(eq(pluginConfigWooCommerce.appId, appId))
+        .limit(1);
+
+      return !config?.storeUrl ||
+        !config?.consumerKey ||
+        !config?.consumerSecret
+        ? "App is not properly configured. Store URL, consumer key and consumer secret are required for importing products."
+        : null;
+    }
+    case "google_merchant": {
+      const [config] = await db
+        .select()
+        .from(pluginConfigGoogleMerchant)
+        .where(eq(pluginConfigGoogleMerchant.appId, appId))
+        .limit(1);
+
+      return !config?.feedUrl
+        ? "App is not properly configured. A Google Merchant Center feed URL is required for importing products."
+        : null;
+    }
+    case "feed": {
+      const [upload] = await db
+        .select({ uploadId: feedUploads.uploadId })
+        .from(feedUploads)
+        .where(eq(feedUploads.appId, appId))
+        .limit(1);
+
+      return !upload
+        ? `No product feed has been uploaded. Upload a CSV, JSON or NDJSON feed to /api/apps/${appId}/feed first.`
+        : null;
+    }
+    default:
+      return null;
+  }
+}
@@ -1,4 +1,31 @@
-export interface Product {
+/**
+ * One purchasable version of a product, e.g. a size in a colour
+ */
+export interface ProductVariant {
+  variantId?: string;
+  sku?: string;
+  size?: string;
+  color?: string;
+  price?: number; // when it differs from the product's price
+  stock?: number; // units available, unset when the platform does not track stock
+  images?: string[]; // images of this variant, e.g. its colour
+}
+
+/**
+ * Structured fields a plugin fills in besides the searchable text. They are
+ * stored with the product and sent to Pinecone as record fields.
+ */
+export interface ProductAttributes {
+  price?: number;
+  currency?: string; // ISO 4217 code
+  variants?: ProductVariant[];
+  categories?: string[];
+  colors?: string[];
+  brand?: string;
+  url?: string; // product page on the storefront
+}
+
+export interface Product extends ProductAttributes {
   product_id: number;
   name: string;
   description?: string;
@@ -8,15 +35,145 @@ export interface Product {
 
 export interface ProductList {
   products: Product[];
+  unchanged?: boolean; // the catalog is known not to have changed since the last import
+}
+
+/**
+ * Lets a resumed import skip pages already fetched by an interrupted run.
+ * Plugins without paginated fetching may ignore it.
+ */
+export interface FetchCheckpoint {
+  fetchedPages: Map<number, Product[]>;
+  // Page size each saved page was fetched with, when the plugin recorded it
+  pageSizes: Map<number, number>;
+  savePage(page: number, products: Product[], pageSize?: number): Promise<void>;
+}
+
+/**
+ * Webhooks a plugin registered on the merchant's platform for this app
+ */
+export interface WebhookRegistration {
+  address: string;
+  topics: string[];
+  webhookIds: string[];
+}
+
+export interface WebhookVerification extends WebhookRegistration {
+  registered: boolean; // every topic points at the address
+  missingTopics: string[];
+  secretStored: boolean;
+}
+
+export type ConnectionProblem =
+  | "not_configured"
+  | "invalid_url"
+  | "missing_protocol"
+  | "private_address"
+  | "dns"
+  | "tls"
+  | "connection"
+  | "timeout"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "server_error"
+  | "unexpected_status"
+  | "malformed_response"
+  | "invalid_product";
+
+/**
+ * Outcome of a plugin's connection test. A reachable catalog without any
+ * products is still ok, sampleProduct is null then.
+ */
+export interface ConnectionTestResult {
+  ok: boolean;
+  problem: ConnectionProblem | null;
+  message: string;
+  hint: string | null; // what to check when the test failed
+  url: string | null; // endpoint that was tried, without credentials
+  status: number | null; // HTTP status, if a response arrived
+  durationMs: number;
+  sampleFields: string[]; // fields of the first product as the platform sent it
+  sampleProduct: Product | null; // the same product after conversion
+}
+
+export type PluginCapability =
+  | "singleProductFetch" // getProductById, used for publish webhooks on unindexed products
+  | "webhooks" // registerWebhooks, verifyWebhooks and removeWebhooks
+  | "incrementalSync" // unchanged catalogs are detected and not re-indexed
+  | "variants" // variants carry their colour and images, so colourways can be indexed separately
+  | "connectionTest"; // testConnection
+
+/**
+ * One setting of a plugin, stored as a column of its configuration table
+ */
+export interface PluginConfigField {
+  key: string; // column name, e.g. api_hostname
+  label: string;
+  type: "text" | "url" | "secret" | "number";
+  required: boolean;
+  description?: string;
+  placeholder?: string;
+  default?: string;
+}
+
+/**
+ * What a plugin supports and which settings it needs, for the dashboard
+ */
+export interface PluginDescriptor {
+  displayName: string;
+  description: string;
+  configTable: string | null; // null when the plugin has nothing to configure
+  configSchema: PluginConfigField[];
+  capabilities: Record<PluginCapability, boolean>;
 }
 
+export type PluginClass = (new (app_id: string) => App) & {
+  descriptor: PluginDescriptor;
+};
+
+// Optional methods a capability promises
+const CAPABILITY_METHODS: Partial<Record<PluginCapability, Array<keyof App>>> =
+  {
+    singleProductFetch: ["getProductById"],
+    webhooks: ["registerWebhooks", "verifyWebhooks", "removeWebhooks"],
+    connectionTest: ["testConnection"],
+  };
+
 export abstract class App {
-  static registry: Record<string, new (app_id: string) => App> = {};
+  static registry: Record<string, PluginClass> = {};
+
+  /**
+   * Registers a plugin under its pluginName. Throws when its declared
+   * capabilities and implemented methods disagree.
+   */
+  static register(type: string, ctor: PluginClass) {
+    for (const [capability, methods] of Object.entries(CAPABILITY_METHODS)) {
+      const declared =
+        ctor.descriptor.capabilities[capability as PluginCapability];
+      for (const method of methods) {
+        const implemented =
+          typeof (ctor.prototype as App)[method] === "function";
+        if (declared !== implemented) {
+          throw new Error(
+            `Plugin ${type} ${declared ? "declares" : "does not declare"} ${capability} but ${implemented ? "implements" : "does not implement"} ${method}`
+          );
+        }
+      }
+    }
 
-  static register(type: string, ctor: new (app_id: string) => App) {
     App.registry[type] = ctor;
   }
 
+  static getDescriptor(type: string): PluginDescriptor | null {
+    return App.registry[type]?.descriptor ?? null;
+  }
+
+  static supports(type: string, capability: PluginCapability): boolean {
+    return App.getDescriptor(type)?.capabilities[capability] ?? false;
+  }
+
   protected app_id: string;
 
   constructor(app_id: string) {
@@ -24,10 +181,45 @@ export abstract class App {
   }
 
   abstract init(): Promise<void>;
-  abstract getAllProducts(): Promise<ProductList>;
+  abstract getAllProducts(checkpoint?: FetchCheckpoint): Promise<ProductList>;
   abstract processProduct(product: unknown): Product;
   abstract updateProduct(productInfo: unknown): Promise<Product>;
 
+  /**
+   * Yields the catalog page by page as it is fetched, so products can be
+   * processed before the whole catalog has arrived. An unchanged catalog is
+   * a single page with unchanged set. Plugins that fetch everything at once
+   * keep this default.
+   */
+  async *iterateProducts(
+    checkpoint?: FetchCheckpoint
+  ): AsyncGenerator<ProductList> {
+    yield await this.getAllProducts(checkpoint);
+  }
+
+  /**
+   * getAllProducts for plugins that stream their catalog via iterateProducts
+   */
+  protected async collectProducts(
+    checkpoint?: FetchCheckpoint
+  ): Promise<ProductList> {
+    const products: Product[] = [];
+    for await (const page of this.iterateProducts(checkpoint)) {
+      if (page.unchanged) return { products: [], unchanged: true };
+      products.push(...page.products);
+    }
+    return { products };
+  }
+
   // Optional method for plugins that support fetching individual products
   getProductById?(productId: string): Promise<Product | null>;
+
+  // Optional methods for plugins that can manage webhooks on their platform
+  registerWebhooks?(address: string): Promise<WebhookRegistration>;
+  verifyWebhooks?(address: string): Promise<WebhookVerification>;
+  removeWebhooks?(address: string): Promise<void>;
+
+  // Optional method for plugins that can check their configuration by
+  // fetching a single product
+  testConnection?(): Promise<ConnectionTestResult>;
 }
@@ -1,13 +1,49 @@
-import { App, type Product, type ProductList } from "./plugin_class";
+import {
+  App,
+  type ConnectionTestResult,
+  type FetchCheckpoint,
+  type PluginDescriptor,
+  type Product,
+  type ProductList,
+  type ProductVariant,
+  type WebhookRegistration,
+  type WebhookVerification,
+} from "./plugin_class";
 import { db } from "../../../server/db";
-import { pluginConfigShopcada } from "../../../server/db/schema";
+import {
+  pluginConfigShopcada,
+  pluginConfigShopcadaWebhook,
+} from "../../../server/db/schema";
 import { eq } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import {
+  ConnectionProbeError,
+  connectionFailure,
+  parseJsonBody,
+  probeConnection,
+} from "./connection_probe";
+
+export type ShopcadaConfig = typeof pluginConfigShopcada.$inferSelect;
+
+export interface ShopcadaVariant {
+  variant_id?: number | string;
+  sku?: string;
+  size?: string;
+  color?: string;
+  price?: number | string;
+  stock?: number | null; // null when stock is not tracked
+  images?: string[];
+}
 
 export interface ShopcadaProduct {
   product_id: number;
   name: string;
   description?: string;
   images?: string[];
+  price?: number | string;
+  currency?: string;
+  brand?: string | { name?: string };
+  variants?: ShopcadaVariant[];
   published?: boolean; // This is the correct field for published status
   pos_published?: boolean; // This is for point-of-sale published status
   categories?: Array<{ name: string }>;
@@ -26,9 +62,122 @@ export interface ShopcadaApiResponse {
   };
 }
 
+export interface ShopcadaWebhook {
+  webhook_id?: number | string;
+  id?: number | string;
+  topic: string;
+  address?: string;
+  url?: string;
+  secret?: string;
+}
+
+// Product topics the worker's webhook route handles
+export const SHOPCADA_WEBHOOK_TOPICS = [
+  "products/create",
+  "products/update",
+  "products/delete",
+  "products/publish",
+  "products/unpublish",
+];
+
+export const SHOPCADA_DEFAULT_PAGE_SIZE = 20;
+export const SHOPCADA_MAX_PAGE_SIZE = 250;
+
+// Pages fetched side by side during an import
+const PAGE_CONCURRENCY = 4;
+
+// Rate-limited, failed or timed out page requests are retried this many times
+const MAX_PAGE_ATTEMPTS = 5;
+const PAGE_TIMEOUT_MS = 30000;
+const MAX_RETRY_WAIT_MS = 60000;
+
+// Prices arrive as numbers or decimal strings
+function parsePrice(value: unknown): number | undefined {
+  const price =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? parseFloat(value)
+        : NaN;
+  return isFinite(price) && price >= 0 ? price : undefined;
+}
+
+// Unset text fields may arrive as empty strings
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with jitter: about 1s, 2s, 4s, 8s
+function backoffMs(attempt: number): number {
+  return Math.min(
+    1000 * 2 ** (attempt - 1) + Math.floor(Math.random() * 250),
+    MAX_RETRY_WAIT_MS,
+  );
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date, capped so a bad header
+ * cannot stall an import
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const waitMs = !isNaN(seconds)
+    ? seconds * 1000
+    : new Date(header).getTime() - Date.now();
+  if (isNaN(waitMs)) return null;
+  return Math.min(Math.max(waitMs, 0), MAX_RETRY_WAIT_MS);
+}
+
 export class ShopcadaPlugin extends App {
+  static descriptor: PluginDescriptor = {
+    displayName: "Shopcada",
+    description: "Imports products from the Shopcada v3 REST API.",
+    configTable: "plugin_config_shopcada",
+    configSchema: [
+      {
+        key: "api_hostname",
+        label: "API hostname",
+        type: "url",
+        required: true,
+        description: "Base URL of your Shopcada API, including the protocol.",
+        placeholder: "https://your-shop.shopcada.com",
+      },
+      {
+        key: "api_key",
+        label: "API key",
+        type: "secret",
+        required: true,
+        description: "Sent as the X-Shopcada-API-Key header.",
+      },
+      {
+        key: "page_size",
+        label: "Page size",
+        type: "number",
+        required: false,
+        description: `Products requested per page during an import, up to ${SHOPCADA_MAX_PAGE_SIZE}. Lower it if the API times out on large pages.`,
+        default: String(SHOPCADA_DEFAULT_PAGE_SIZE),
+      },
+    ],
+    capabilities: {
+      singleProductFetch: true,
+      webhooks: true,
+      incrementalSync: false,
+      variants: true,
+      connectionTest: true,
+    },
+  };
+
   private apiHostname: string | null = null;
   private apiKey: string | null = null;
+  private pageSize = SHOPCADA_DEFAULT_PAGE_SIZE;
 
   async init(): Promise<void> {
     const [config] = await db
@@ -41,134 +190,207 @@ export class ShopcadaPlugin extends App {
       throw new Error("Shopcada plugin configuration not found");
     }
 
+    this.configure(config);
+  }
+
+  /**
+   * Applies a configuration row. init() loads it from the database, the
+   * conformance kit passes one directly.
+   */
+  configure(config: ShopcadaConfig): void {
     this.apiHostname = config.apiHostname;
     this.apiKey = config.apiKey;
+    this.pageSize = Math.min(
+      Math.max(config.pageSize, 1),
+      SHOPCADA_MAX_PAGE_SIZE,
+    );
   }
 
-  async getAllProducts(): Promise<ProductList> {
+  async getAllProducts(checkpoint?: FetchCheckpoint): Promise<ProductList> {
+    return this.collectProducts(checkpoint);
+  }
+
+  /**
+   * Fetches one page, retrying rate limits, server errors and network
+   * failures. Throws once the retries are used up, a page is never skipped.
+   */
+  private async fetchPage(
+    page: number,
+    limit: number,
+  ): Promise<ShopcadaApiResponse> {
     if (!this.apiHostname || !this.apiKey) {
       throw new Error("Plugin not initialized. Call init() first.");
     }
 
-    try {
-      const allProducts: ShopcadaProduct[] = [];
-      const currentPage = 0;
-      let totalPages = 1;
-
-      // First call to get initial data and metadata
-      const firstPageUrl = `${this.apiHostname}/api/v3/products?page=${currentPage}&limit=20`;
-      console.log(`[Shopcada] Fetching page ${currentPage}: ${firstPageUrl}`);
-
-      const firstResponse = await fetch(firstPageUrl, {
-        headers: {
-          "X-Shopcada-API-Key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      });
-
+    const pageUrl = `${this.apiHostname}/api/v3/products?page=${page}&limit=${limit}`;
+    for (let attempt = 1; ; attempt++) {
       console.log(
-        `[Shopcada] Page ${currentPage} response status: ${firstResponse.status} ${firstResponse.statusText}`,
+        `[Shopcada] Fetching page ${page}: ${pageUrl}${attempt > 1 ? ` (attempt ${attempt}/${MAX_PAGE_ATTEMPTS})` : ""}`,
       );
 
-      if (!firstResponse.ok) {
-        const errorText = await firstResponse.text();
-        console.error(`[Shopcada] Error response body:`, errorText);
-
-        throw new Error(
-          `Failed to fetch products: ${firstResponse.status} ${firstResponse.statusText}. ` +
-            `URL: ${firstPageUrl}. ` +
-            `Response: ${errorText.substring(0, 200)}${errorText.length > 200 ? "..." : ""}`,
+      let response: Response;
+      try {
+        response = await fetch(pageUrl, {
+          headers: {
+            "X-Shopcada-API-Key": this.apiKey,
+            "Content-Type": "application/json",
+          },
+          signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+        });
+      } catch (error) {
+        if (attempt >= MAX_PAGE_ATTEMPTS) {
+          throw new Error(
+            `Page ${page} could not be fetched after ${attempt} attempts: ${error instanceof Error ? error.message : "Unknown error"}`,
+          );
+        }
+        const waitMs = backoffMs(attempt);
+        console.warn(
+          `[Shopcada] Page ${page} request failed, retrying in ${waitMs}ms:`,
+          error,
         );
+        await sleep(waitMs);
+        continue;
       }
 
-      const firstData = (await firstResponse.json()) as ShopcadaApiResponse;
+      if (response.ok) {
+        const data = (await response.json()) as ShopcadaApiResponse;
+        if (!data.products || !Array.isArray(data.products)) {
+          throw new Error(
+            `Invalid response format for page ${page}: expected object with products array. Got: ${typeof data}`,
+          );
+        }
+        return data;
+      }
 
-      if (!firstData.products || !Array.isArray(firstData.products)) {
+      const errorText = await response.text();
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= MAX_PAGE_ATTEMPTS) {
+        console.error(`[Shopcada] Error response body:`, errorText);
         throw new Error(
-          `Invalid response format: expected object with products array. Got: ${typeof firstData}`,
+          `Page ${page} failed with ${response.status} ${response.statusText}` +
+            (retryable ? ` after ${attempt} attempts` : "") +
+            `. URL: ${pageUrl}. ` +
+            `Response: ${errorText.substring(0, 200)}${errorText.length > 200 ? "..." : ""}`,
         );
       }
 
-      // Add first page products
-      allProducts.push(...firstData.products);
+      const waitMs =
+        parseRetryAfter(response.headers.get("retry-after")) ??
+        backoffMs(attempt);
+      console.warn(
+        `[Shopcada] Page ${page} returned ${response.status}, retrying in ${waitMs}ms`,
+      );
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Restores a page saved by an interrupted run, or fetches and saves it.
+   * Saved pages of another page size hold different products and are
+   * fetched again. Nothing is saved once the signal is aborted.
+   */
+  private async loadPage(
+    page: number,
+    pageSize: number,
+    signal: AbortSignal,
+    checkpoint?: FetchCheckpoint,
+  ): Promise<Product[]> {
+    const savedProducts = checkpoint?.fetchedPages.get(page);
+    const savedPageSize = checkpoint?.pageSizes.get(page);
+    if (savedProducts && savedPageSize === pageSize) {
+      console.log(
+        `[Shopcada] Page ${page} restored ${savedProducts.length} products from checkpoint`,
+      );
+      return savedProducts;
+    }
+    if (savedProducts) {
+      console.log(
+        `[Shopcada] Page ${page} was saved with page size ${savedPageSize ?? "unknown"}, fetching it again with ${pageSize}`,
+      );
+    }
+
+    const data = await this.fetchPage(page, pageSize);
+    const pageProducts = data.products.map((product) =>
+      this.processProduct(product),
+    );
+    if (signal.aborted) return pageProducts;
+    await checkpoint?.savePage(page, pageProducts, pageSize);
+    console.log(
+      `[Shopcada] Page ${page} fetched ${pageProducts.length} products`,
+    );
+    return pageProducts;
+  }
+
+  async *iterateProducts(
+    checkpoint?: FetchCheckpoint,
+  ): AsyncGenerator<ProductList> {
+    if (!this.apiHostname || !this.apiKey) {
+      throw new Error("Plugin not initialized. Call init() first.");
+    }
 
-      // Calculate total pages needed
+    // Pages fetched ahead of the one being yielded, at most PAGE_CONCURRENCY
+    const inFlight = new Map<number, Promise<Product[]>>();
+    const stopped = new AbortController();
+
+    try {
+      // The first page is always re-fetched since it carries the catalog size
+      const firstData = await this.fetchPage(0, this.pageSize);
+      const firstPageProducts = firstData.products.map((product) =>
+        this.processProduct(product),
+      );
+      // Calculate total pages needed. Shopcada may cap the requested page
+      // size, so the limit it reports is the one every later page requests,
+      // keeping the page count and each page's offset consistent
       const totalProducts = firstData.meta?.count || firstData.products.length;
-      const limit = firstData.meta?.limit || 20;
-      totalPages = Math.ceil(totalProducts / limit);
+      const limit = firstData.meta?.limit || this.pageSize;
+      await checkpoint?.savePage(0, firstPageProducts, limit);
+      const totalPages = Math.ceil(totalProducts / limit);
 
       console.log(
         `[Shopcada] Total products: ${totalProducts}, Limit: ${limit}, Total pages: ${totalPages}`,
       );
       console.log(
-        `[Shopcada] Page ${currentPage} fetched ${firstData.products.length} products`,
+        `[Shopcada] Page 0 fetched ${firstData.products.length} products`,
       );
-
-      // Fetch remaining pages if there are more
-      if (totalPages > 1) {
-        const remainingPages = [];
-        for (let page = 1; page < totalPages; page++) {
-          remainingPages.push(page);
+      let fetchedCount = firstPageProducts.length;
+      yield { products: firstPageProducts };
+
+      // Remaining pages are fetched side by side but yielded in order, so
+      // a resumed import sees the same batches
+      let nextPage = 1;
+      for (let page = 1; page < totalPages; page++) {
+        while (nextPage < totalPages && inFlight.size < PAGE_CONCURRENCY) {
+          const pending = this.loadPage(
+            nextPage,
+            limit,
+            stopped.signal,
+            checkpoint,
+          );
+          pending.catch(() => undefined); // rethrown when its turn comes
+          inFlight.set(nextPage, pending);
+          nextPage++;
         }
 
-        console.log(
-          `[Shopcada] Fetching ${remainingPages.length} additional pages...`,
-        );
-
-        // Fetch remaining pages in parallel (but with some delay to be nice to the API)
-        for (const page of remainingPages) {
-          const pageUrl = `${this.apiHostname}/api/v3/products?page=${page}&limit=20`;
-          console.log(`[Shopcada] Fetching page ${page}: ${pageUrl}`);
-
-          const response = await fetch(pageUrl, {
-            headers: {
-              "X-Shopcada-API-Key": this.apiKey,
-              "Content-Type": "application/json",
-            },
-          });
-
-          if (!response.ok) {
-            console.error(
-              `[Shopcada] Failed to fetch page ${page}: ${response.status} ${response.statusText}`,
-            );
-            continue; // Skip this page but continue with others
-          }
-
-          const data = (await response.json()) as ShopcadaApiResponse;
-          if (data.products && Array.isArray(data.products)) {
-            allProducts.push(...data.products);
-            console.log(
-              `[Shopcada] Page ${page} fetched ${data.products.length} products`,
-            );
-          }
-
-          // Small delay to be nice to the API
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
+        const pageProducts = await inFlight.get(page)!;
+        inFlight.delete(page);
+        fetchedCount += pageProducts.length;
+        yield { products: pageProducts };
       }
 
       console.log(
-        `[Shopcada] Fetched ${allProducts.length} total products from ${totalPages} pages`,
+        `[Shopcada] Fetched ${fetchedCount} total products from ${totalPages} pages`,
       );
 
-      if (allProducts.length > 0) {
+      if (firstData.products.length > 0) {
         console.log(
           `[Shopcada] Sample product fields:`,
-          Object.keys(allProducts[0]),
+          Object.keys(firstData.products[0]),
         );
         console.log(
           `[Shopcada] Sample product published:`,
-          allProducts[0].published,
+          firstData.products[0].published,
         );
       }
-
-      const products: Product[] = await Promise.all(
-        allProducts.map((product: ShopcadaProduct) =>
-          this.processProduct(product),
-        ),
-      );
-
-      return { products };
     } catch (error) {
       console.error("Error fetching products:", error);
 
@@ -180,6 +402,11 @@ export class ShopcadaPlugin extends App {
           `Check that: 1) API hostname includes protocol (https://), ` +
           `2) /api/v3/products endpoint exists, 3) API key is valid and uses X-Shopcada-API-Key header`,
       );
+    } finally {
+      // Pages still being fetched must not be saved after the import stopped:
+      // tell them to skip saving, then wait for them to settle
+      stopped.abort();
+      await Promise.allSettled(inFlight.values());
     }
   }
 
@@ -299,12 +526,49 @@ export class ShopcadaPlugin extends App {
         )?.color ?? "")
       : "";
 
+    const variants = Array.isArray(productObj.variants)
+      ? (productObj.variants as ShopcadaVariant[]).map(
+          (variant): ProductVariant => ({
+            variantId:
+              variant.variant_id !== undefined
+                ? String(variant.variant_id)
+                : undefined,
+            sku: optionalText(variant.sku),
+            size: optionalText(variant.size),
+            color: optionalText(variant.color),
+            price: parsePrice(variant.price),
+            stock:
+              typeof variant.stock === "number" ? variant.stock : undefined,
+            images:
+              Array.isArray(variant.images) && variant.images.length > 0
+                ? variant.images
+                : undefined,
+          }),
+        )
+      : [];
+    const sizes = [
+      ...new Set(variants.flatMap((variant) => variant.size ?? [])),
+    ];
+
+    const brand = optionalText(
+      typeof productObj.brand === "string"
+        ? productObj.brand
+        : (productObj.brand as { name?: string } | undefined)?.name,
+    );
+    const currency =
+      typeof productObj.currency === "string" &&
+      /^[a-z]{3}$/i.test(productObj.currency)
+        ? productObj.currency.toUpperCase()
+        : undefined;
+
     // Build final description
     const finalDescription = [
       description ?? "",
+      brand && `Brand: ${brand}`,
       categoriesString && `Categories: ${categoriesString}`,
       colorsString && `Colors: ${colorsString}`,
       colorHex && `Color code: ${colorHex}`,
+      sizes.length > 0 && `Sizes: ${sizes.join(", ")}`,
     ]
       .filter(Boolean)
       .join("\n");
@@ -323,12 +587,269 @@ export class ShopcadaPlugin extends App {
       description: finalDescription,
       images,
       isPublished: published,
+      price: parsePrice(productObj.price),
+      currency,
+      variants: variants.length > 0 ? variants : undefined,
+      categories,
+      colors,
+      brand,
+      url: optionalText(productObj.web_url),
     };
   }
 
   async updateProduct(productInfo: unknown): Promise<Product> {
     return this.processProduct(productInfo);
   }
+
+  /**
+   * Fetches a single product from /api/v3/products to check the hostname
+   * and API key
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    if (!this.apiHostname || !this.apiKey) {
+      return connectionFailure(
+        "not_configured",
+        "API hostname and API key are required",
+      );
+    }
+
+    return probeConnection({
+      url: `${this.apiHostname.replace(/\/+$/, "")}/api/v3/products?page=0&limit=1`,
+      init: {
+        headers: {
+          "X-Shopcada-API-Key": this.apiKey,
+          "Content-Type": "application/json",
+        },
+      },
+      readProducts: (body) => {
+        const data = parseJsonBody(body) as Partial<ShopcadaApiResponse> | null;
+        if (!Array.isArray(data?.products)) {
+          throw new ConnectionProbeError(
+            "malformed_response",
+            "Response is JSON but has no products array",
+          );
+        }
+        return data.products;
+      },
+      toProduct: (product) => this.processProduct(product),
+      hints: {
+        missing_protocol:
+          "Include the protocol in the API hostname, e.g. https://your-shop.shopcada.com.",
+        unauthorized:
+          "The API key was rejected. Check that it is valid and sent as X-Shopcada-API-Key.",
+        forbidden: "The API key lacks permission to read products.",
+        not_found:
+          "/api/v3/products was not found. Check that the API hostname points at your Shopcada API.",
+      },
+    });
+  }
+
+  /**
+   * Sends an authenticated request to the Shopcada webhooks API
+   */
+  private async webhookRequest(
+    path: string,
+    init: RequestInit = {},
+  ): Promise<Response> {
+    if (!this.apiHostname || !this.apiKey) {
+      throw new Error("Plugin not initialized. Call init() first.");
+    }
+
+    return fetch(`${this.apiHostname}/api/v3/webhooks${path}`, {
+      ...init,
+      headers: {
+        "X-Shopcada-API-Key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  private async listWebhooks(): Promise<ShopcadaWebhook[]> {
+    const response = await this.webhookRequest("");
+    if (!response.ok) {
+      throw new Error(
+        `Failed to list webhooks: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data = (await response.json()) as
+      | { webhooks?: ShopcadaWebhook[] }
+      | ShopcadaWebhook[];
+    return Array.isArray(data) ? data : (data.webhooks ?? []);
+  }
+
+  private getWebhookId(webhook: ShopcadaWebhook): string {
+    return String(webhook.webhook_id ?? webhook.id);
+  }
+
+  /**
+   * Deletes the given webhooks, treating ones already gone as deleted
+   */
+  private async deleteWebhooks(webhookIds: string[]): Promise<void> {
+    for (const webhookId of webhookIds) {
+      const response = await this.webhookRequest(`/${webhookId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(
+          `Failed to delete webhook ${webhookId}: ${response.status} ${response.statusText}`,
+        );
+      }
+    }
+  }
+
+  private async findWebhooksFor(address: string): Promise<ShopcadaWebhook[]> {
+    const webhooks = await this.listWebhooks();
+    return webhooks.filter(
+      (webhook) => (webhook.address ?? webhook.url) === address,
+    );
+  }
+
+  /**
+   * Points every product topic at the address with a fresh secret, replacing
+   * earlier registrations. The new webhooks are created before the old ones
+   * are deleted, so a failed registration leaves the previous one working.
+   */
+  async registerWebhooks(address: string): Promise<WebhookRegistration> {
+    const appId = parseInt(this.app_id);
+    const [previous] = await db
+      .select({
+        webhookIds: pluginConfigShopcadaWebhook.webhookIds,
+        address: pluginConfigShopcadaWebhook.address,
+      })
+      .from(pluginConfigShopcadaWebhook)
+      .where(eq(pluginConfigShopcadaWebhook.appId, appId));
+
+    const secret = randomBytes(32).toString("hex");
+    const webhookIds: string[] = [];
+    // Shopcada may sign a webhook with a secret of its own instead of ours.
+    // Each webhook covers one topic, so its secret is kept for that topic.
+    const topicSecrets: Record<string, string> = {};
+
+    try {
+      for (const topic of SHOPCADA_WEBHOOK_TOPICS) {
+        const response = await this.webhookRequest("", {
+          method: "POST",
+          body: JSON.stringify({
+            webhook: { topic, address, format: "json", secret },
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Failed to register ${topic} webhook: ${response.status} ${response.statusText}. ` +
+              `Response: ${errorText.substring(0, 200)}${errorText.length > 200 ? "..." : ""}`,
+          );
+        }
+
+        const data = (await response.json()) as
+          | { webhook: ShopcadaWebhook }
+          | ShopcadaWebhook;
+        const created = "webhook" in data ? data.webhook : data;
+        webhookIds.push(this.getWebhookId(created));
+
+        if (created.secret && created.secret !== secret) {
+          topicSecrets[topic] = created.secret;
+        }
+      }
+    } catch (error) {
+      // Don't leave half a registration behind without its secret
+      await this.deleteWebhooks(webhookIds).catch((cleanupError) => {
+        console.error(
+          `[Shopcada] Failed to clean up webhooks for app ${this.app_id}:`,
+          cleanupError,
+        );
+      });
+      throw error;
+    }
+
+    const registration = {
+      webhookSecret: secret,
+      topicSecrets,
+      webhookIds,
+      address,
+      dateRegistered: new Date(),
+      lastVerifiedAt: new Date(),
+    };
+    await db
+      .insert(pluginConfigShopcadaWebhook)
+      .values({ appId, ...registration })
+      .onConflictDoUpdate({
+        target: pluginConfigShopcadaWebhook.appId,
+        set: registration,
+      });
+
+    console.log(
+      `[Shopcada] Registered ${webhookIds.length} webhooks for app ${this.app_id} at ${address}`,
+    );
+
+    // Remove earlier registrations at this address, and the ones recorded
+    // for a previous address. Their deliveries carry the old secret and are
+    // rejected, so a failed cleanup is logged rather than failing the call.
+    const staleIds = (await this.findWebhooksFor(address))
+      .map((webhook) => this.getWebhookId(webhook))
+      .filter((webhookId) => !webhookIds.includes(webhookId));
+    if (previous && previous.address !== address) {
+      staleIds.push(...previous.webhookIds);
+    }
+    await this.deleteWebhooks(staleIds).catch((cleanupError) => {
+      console.error(
+        `[Shopcada] Failed to remove stale webhooks for app ${this.app_id}:`,
+        cleanupError,
+      );
+    });
+
+    return { address, topics: SHOPCADA_WEBHOOK_TOPICS, webhookIds };
+  }
+
+  /**
+   * Checks that every product topic still points at the address and that
+   * its secret is stored
+   */
+  async verifyWebhooks(address: string): Promise<WebhookVerification> {
+    const webhooks = await this.findWebhooksFor(address);
+    const registeredTopics = webhooks.map((webhook) => webhook.topic);
+    const missingTopics = SHOPCADA_WEBHOOK_TOPICS.filter(
+      (topic) => !registeredTopics.includes(topic),
+    );
+
+    const [config] = await db
+      .update(pluginConfigShopcadaWebhook)
+      .set({ lastVerifiedAt: new Date() })
+      .where(eq(pluginConfigShopcadaWebhook.appId, parseInt(this.app_id)))
+      .returning({ appId: pluginConfigShopcadaWebhook.appId });
+
+    return {
+      address,
+      topics: SHOPCADA_WEBHOOK_TOPICS.filter((topic) =>
+        registeredTopics.includes(topic),
+      ),
+      webhookIds: webhooks.map((webhook) => this.getWebhookId(webhook)),
+      registered: missingTopics.length === 0 && !!config,
+      missingTopics,
+      secretStored: !!config,
+    };
+  }
+
+  /**
+   * Deletes the webhooks pointing at the address and forgets their secret,
+   * after which the webhook route rejects deliveries for this app
+   */
+  async removeWebhooks(address: string): Promise<void> {
+    const webhooks = await this.findWebhooksFor(address);
+    await this.deleteWebhooks(
+      webhooks.map((webhook) => this.getWebhookId(webhook)),
+    );
+
+    await db
+      .delete(pluginConfigShopcadaWebhook)
+      .where(eq(pluginConfigShopcadaWebhook.appId, parseInt(this.app_id)));
+
+    console.log(
+      `[Shopcada] Removed ${webhooks.length} webhooks for app ${this.app_id} at ${address}`,
+    );
+  }
 }
 
 export { ShopcadaPlugin as ShopcadaPluginInfo };
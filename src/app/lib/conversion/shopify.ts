@@ -0,0 +1,450 @@
+import {
+  App,
+  type ConnectionTestResult,
+  type FetchCheckpoint,
+  type PluginDescriptor,
+  type Product,
+  type ProductList,
+} from "./plugin_class";
+import { db } from "../../../server/db";
+import { pluginConfigShopify } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  ConnectionProbeError,
+  connectionFailure,
+  parseJsonBody,
+  probeConnection,
+} from "./connection_probe";
+
+export type ShopifyConfig = typeof pluginConfigShopify.$inferSelect;
+
+export interface ShopifyProduct {
+  legacyResourceId: string;
+  title: string;
+  description?: string | null;
+  status?: "ACTIVE" | "ARCHIVED" | "DRAFT";
+  publishedAt?: string | null;
+  productType?: string | null;
+  vendor?: string | null;
+  tags?: string[];
+  images?: { nodes: Array<{ url: string }> };
+}
+
+interface ShopifyGraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
+  extensions?: {
+    cost?: {
+      requestedQueryCost: number;
+      throttleStatus: { currentlyAvailable: number; restoreRate: number };
+    };
+  };
+}
+
+interface ShopifyProductsPage {
+  products: {
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: ShopifyProduct[];
+  };
+}
+
+// Products per Admin API request (Shopify allows up to 250)
+const PAGE_SIZE = 100;
+
+// Images kept per product, the first one is the one that gets described
+const IMAGES_PER_PRODUCT = 10;
+
+// Throttled or failed requests are retried this many times
+const MAX_REQUEST_ATTEMPTS = 5;
+
+// A request still unanswered after this long is retried
+const REQUEST_TIMEOUT_MS = 30000;
+
+const PRODUCT_FIELDS = `
+  legacyResourceId
+  title
+  description
+  status
+  publishedAt
+  productType
+  vendor
+  tags
+  images(first: ${IMAGES_PER_PRODUCT}) { nodes { url } }
+`;
+
+// Sorted by id so a resumed import can continue after the last saved product
+const PRODUCTS_QUERY = `
+  query Products($first: Int!, $after: String, $query: String) {
+    products(first: $first, after: $after, query: $query, sortKey: ID) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${PRODUCT_FIELDS} }
+    }
+  }
+`;
+
+const PRODUCT_QUERY = `
+  query Product($id: ID!) {
+    product(id: $id) { ${PRODUCT_FIELDS} }
+  }
+`;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class ShopifyPlugin extends App {
+  static descriptor: PluginDescriptor = {
+    displayName: "Shopify",
+    description: "Imports products through the Shopify Admin GraphQL API.",
+    configTable: "plugin_config_shopify",
+    configSchema: [
+      {
+        key: "shop_domain",
+        label: "Shop domain",
+        type: "text",
+        required: true,
+        placeholder: "your-shop.myshopify.com",
+      },
+      {
+        key: "access_token",
+        label: "Admin API access token",
+        type: "secret",
+        required: true,
+        description: "Needs the read_products scope.",
+      },
+      {
+        key: "api_version",
+        label: "API version",
+        type: "text",
+        required: false,
+        default: "2025-01",
+      },
+    ],
+    capabilities: {
+      singleProductFetch: true,
+      webhooks: false,
+      incrementalSync: false,
+      variants: false,
+      connectionTest: true,
+    },
+  };
+
+  private shopDomain: string | null = null;
+  private accessToken: string | null = null;
+  private apiVersion: string | null = null;
+
+  async init(): Promise<void> {
+    const [config] = await db
+      .select()
+      .from(pluginConfigShopify)
+      .where(eq(pluginConfigShopify.appId, parseInt(this.app_id)))
+      .limit(1);
+
+    if (!config) {
+      throw new Error("Shopify plugin configuration not found");
+    }
+
+    this.configure(config);
+  }
+
+  /**
+   * Applies a configuration row. init() loads it from the database, the
+   * conformance kit passes one directly.
+   */
+  configure(config: ShopifyConfig): void {
+    this.shopDomain = config.shopDomain
+      .replace(/^https?:\/\//, "")
+      .replace(/\/+$/, "");
+    this.accessToken = config.accessToken;
+    this.apiVersion = config.apiVersion;
+  }
+
+  /**
+   * Runs an Admin API GraphQL query, waiting out rate limits and retrying
+   * timeouts and network errors.
+   * Shopify reports throttling as a THROTTLED error rather than a 429.
+   */
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<T> {
+    if (!this.shopDomain || !this.accessToken || !this.apiVersion) {
+      throw new Error("Plugin not initialized. Call init() first.");
+    }
+
+    const url = `https://${this.shopDomain}/admin/api/${this.apiVersion}/graphql.json`;
+    let lastError = "Unknown error";
+
+    for (let attempt = 1; attempt <= MAX_REQUEST_ATTEMPTS; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "X-Shopify-Access-Token": this.accessToken,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ query, variables }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : "Network error";
+        console.warn(
+          `[Shopify] Request failed, retrying (attempt ${attempt}/${MAX_REQUEST_ATTEMPTS}):`,
+          error
+        );
+        await sleep(1000 * attempt);
+        continue;
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfter = parseFloat(
+          response.headers.get("retry-after") ?? ""
+        );
+        lastError = `${response.status} ${response.statusText}`;
+        await sleep(isNaN(retryAfter) ? 1000 * attempt : retryAfter * 1000);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `Shopify request failed: ${response.status} ${response.statusText}. ` +
+            `Response: ${errorText.substring(0, 200)}${errorText.length > 200 ? "..." : ""}`
+        );
+      }
+
+      const body = (await response.json()) as ShopifyGraphQLResponse<T>;
+
+      if (
+        body.errors?.some((error) => error.extensions?.code === "THROTTLED")
+      ) {
+        // Wait until enough query cost has been restored for this request
+        const cost = body.extensions?.cost;
+        const waitMs = cost
+          ? Math.max(
+              ((cost.requestedQueryCost -
+                cost.throttleStatus.currentlyAvailable) /
+                cost.throttleStatus.restoreRate) *
+                1000,
+              500
+            )
+          : 1000 * attempt;
+        lastError = "Throttled";
+        console.log(`[Shopify] Throttled, retrying in ${Math.ceil(waitMs)}ms`);
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (body.errors?.length || !body.data) {
+        throw new Error(
+          `Shopify query failed: ${body.errors?.map((error) => error.message).join("; ") ?? "no data returned"}`
+        );
+      }
+
+      return body.data;
+    }
+
+    throw new Error(
+      `Shopify request failed after ${MAX_REQUEST_ATTEMPTS} attempts: ${lastError}`
+    );
+  }
+
+  async getAllProducts(checkpoint?: FetchCheckpoint): Promise<ProductList> {
+    return this.collectProducts(checkpoint);
+  }
+
+  async *iterateProducts(
+    checkpoint?: FetchCheckpoint
+  ): AsyncGenerator<ProductList> {
+    let fetchedCount = 0;
+    let lastProduct: Product | undefined;
+
+    // Cursors are not saved, so pick up after the last product of the
+    // leading run of saved pages instead
+    let page = 0;
+    for (
+      let saved = checkpoint?.fetchedPages.get(page);
+      saved && saved.length > 0;
+      saved = checkpoint?.fetchedPages.get(page)
+    ) {
+      fetchedCount += saved.length;
+      lastProduct = saved[saved.length - 1];
+      yield { products: saved };
+      page++;
+    }
+    if (page > 0) {
+      console.log(
+        `[Shopify] Restored ${fetchedCount} products from ${page} saved pages`
+      );
+    }
+
+    const query = lastProduct ? `id:>${lastProduct.product_id}` : null;
+    let cursor: string | null = null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      console.log(`[Shopify] Fetching page ${page}`);
+      const data: ShopifyProductsPage = await this.graphql<ShopifyProductsPage>(
+        PRODUCTS_QUERY,
+        { first: PAGE_SIZE, after: cursor, query }
+      );
+
+      const pageProducts = data.products.nodes.map((product) =>
+        this.processProduct(product)
+      );
+      await checkpoint?.savePage(page, pageProducts);
+      console.log(
+        `[Shopify] Page ${page} fetched ${pageProducts.length} products`
+      );
+      fetchedCount += pageProducts.length;
+      yield { products: pageProducts };
+
+      hasNextPage = data.products.pageInfo.hasNextPage;
+      cursor = data.products.pageInfo.endCursor;
+      page++;
+    }
+
+    console.log(
+      `[Shopify] Fetched ${fetchedCount} total products from ${page} pages`
+    );
+  }
+
+  async getProductById(productId: string): Promise<Product | null> {
+    const data = await this.graphql<{ product: ShopifyProduct | null }>(
+      PRODUCT_QUERY,
+      { id: `gid://shopify/Product/${productId}` }
+    );
+    return data.product ? this.processProduct(data.product) : null;
+  }
+
+  public processProduct(product: unknown): Product {
+    if (!product || typeof product !== "object") {
+      throw new Error("Invalid product data provided");
+    }
+
+    // GraphQL nodes and REST payloads (webhooks) name fields differently
+    const productObj = product as Omit<
+      Partial<ShopifyProduct>,
+      "images" | "tags"
+    > & {
+      id?: number | string;
+      body_html?: string | null;
+      product_type?: string | null;
+      published_at?: string | null;
+      tags?: string[] | string;
+      images?: ShopifyProduct["images"] | Array<{ src?: string }>;
+    };
+
+    const productId = Number(productObj.legacyResourceId ?? productObj.id);
+    if (!productId || !productObj.title) {
+      throw new Error("Product must have an id and a title");
+    }
+
+    const images = Array.isArray(productObj.images)
+      ? productObj.images.flatMap((image) => (image.src ? [image.src] : []))
+      : (productObj.images?.nodes.map((image) => image.url) ?? []);
+
+    const tags = Array.isArray(productObj.tags)
+      ? productObj.tags
+      : (productObj.tags
+          ?.split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean) ?? []);
+    const productType = productObj.productType ?? productObj.product_type;
+    const description =
+      productObj.description ??
+      productObj.body_html
+        ?.replace(/<[^>]*>/g, " ")
+        .replace(/\s+/g, " ")
+        .trim();
+
+    const finalDescription = [
+      description ?? "",
+      productType && `Type: ${productType}`,
+      productObj.vendor && `Vendor: ${productObj.vendor}`,
+      tags.length > 0 && `Tags: ${tags.join(", ")}`,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    // Visible to shoppers when active and published to the online store
+    const publishedAt = productObj.publishedAt ?? productObj.published_at;
+    const status = productObj.status?.toUpperCase();
+    const published =
+      (status === undefined || status === "ACTIVE") && !!publishedAt;
+
+    return {
+      product_id: productId,
+      name: productObj.title,
+      description: finalDescription,
+      images: images.length > 0 ? images : undefined,
+      isPublished: published,
+    };
+  }
+
+  async updateProduct(productInfo: unknown): Promise<Product> {
+    return this.processProduct(productInfo);
+  }
+
+  /**
+   * Queries a single product to check the shop domain, API version and
+   * access token
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    if (!this.shopDomain || !this.accessToken || !this.apiVersion) {
+      return connectionFailure(
+        "not_configured",
+        "Shop domain, access token and API version are required"
+      );
+    }
+
+    return probeConnection({
+      url: `https://${this.shopDomain}/admin/api/${this.apiVersion}/graphql.json`,
+      init: {
+        method: "POST",
+        headers: {
+          "X-Shopify-Access-Token": this.accessToken,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          query: PRODUCTS_QUERY,
+          variables: { first: 1, after: null, query: null },
+        }),
+      },
+      readProducts: (body) => {
+        const data = parseJsonBody(
+          body
+        ) as ShopifyGraphQLResponse<ShopifyProductsPage> | null;
+        if (
+          data?.errors?.some(
+            (error) => error.extensions?.code === "ACCESS_DENIED"
+          )
+        ) {
+          throw new ConnectionProbeError(
+            "forbidden",
+            `Shopify denied access: ${data.errors.map((error) => error.message).join("; ")}`
+          );
+        }
+        if (data?.errors?.length || !data?.data?.products) {
+          throw new ConnectionProbeError(
+            "malformed_response",
+            `Shopify query failed: ${data?.errors?.map((error) => error.message).join("; ") ?? "no data returned"}`
+          );
+        }
+        return data.data.products.nodes;
+      },
+      toProduct: (product) => this.processProduct(product),
+      hints: {
+        unauthorized:
+          "The Admin API access token was rejected. Check that the app is still installed and the token is current.",
+        forbidden: "The access token needs the read_products scope.",
+        not_found:
+          "The Admin API was not found. Check the shop domain (your-shop.myshopify.com) and that the API version is still supported.",
+        dns: "The shop domain does not resolve. Use the your-shop.myshopify.com domain.",
+      },
+    });
+  }
+}
+
+export { ShopifyPlugin as ShopifyPluginInfo };
@@ -0,0 +1,375 @@
+import {
+  App,
+  type ConnectionTestResult,
+  type FetchCheckpoint,
+  type PluginDescriptor,
+  type Product,
+  type ProductList,
+} from "./plugin_class";
+import { db } from "../../../server/db";
+import { pluginConfigWooCommerce } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  ConnectionProbeError,
+  connectionFailure,
+  parseJsonBody,
+  probeConnection,
+} from "./connection_probe";
+
+export type WooCommerceConfig = typeof pluginConfigWooCommerce.$inferSelect;
+
+export interface WooCommerceProduct {
+  id: number;
+  name: string;
+  status?: "publish" | "draft" | "pending" | "private";
+  catalog_visibility?: "visible" | "catalog" | "search" | "hidden";
+  description?: string;
+  short_description?: string;
+  images?: Array<{ id?: number; src: string }>;
+  categories?: Array<{ id?: number; name: string }>;
+  attributes?: Array<{ id?: number; name: string; options?: string[] }>;
+}
+
+// Products per request (WooCommerce allows up to 100)
+const PAGE_SIZE = 100;
+
+// Rate-limited or failed requests are retried this many times
+const MAX_REQUEST_ATTEMPTS = 5;
+
+// A request still unanswered after this long is retried
+const REQUEST_TIMEOUT_MS = 30000;
+
+const COLOUR_ATTRIBUTE = /^(pa_)?colou?rs?$/i;
+const SIZE_ATTRIBUTE = /^(pa_)?sizes?$/i;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// WooCommerce descriptions are HTML, only their text is embedded
+function stripHtml(html: string | undefined): string {
+  return (html ?? "")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export class WooCommercePlugin extends App {
+  static descriptor: PluginDescriptor = {
+    displayName: "WooCommerce",
+    description: "Imports products from the WooCommerce wc/v3 REST API.",
+    configTable: "plugin_config_woocommerce",
+    configSchema: [
+      {
+        key: "store_url",
+        label: "Store URL",
+        type: "url",
+        required: true,
+        description: "Must be served over HTTPS.",
+        placeholder: "https://shop.example.com",
+      },
+      {
+        key: "consumer_key",
+        label: "Consumer key",
+        type: "secret",
+        required: true,
+        description: "A REST API key with Read permission.",
+      },
+      {
+        key: "consumer_secret",
+        label: "Consumer secret",
+        type: "secret",
+        required: true,
+      },
+    ],
+    capabilities: {
+      singleProductFetch: true,
+      webhooks: false,
+      incrementalSync: false,
+      variants: false,
+      connectionTest: true,
+    },
+  };
+
+  private storeUrl: string | null = null;
+  private authorization: string | null = null;
+
+  async init(): Promise<void> {
+    const [config] = await db
+      .select()
+      .from(pluginConfigWooCommerce)
+      .where(eq(pluginConfigWooCommerce.appId, parseInt(this.app_id)))
+      .limit(1);
+
+    if (!config) {
+      throw new Error("WooCommerce plugin configuration not found");
+    }
+
+    this.configure(config);
+  }
+
+  /**
+   * Applies a configuration row. init() loads it from the database, the
+   * conformance kit passes one directly.
+   */
+  configure(config: WooCommerceConfig): void {
+    this.storeUrl = config.storeUrl.replace(/\/+$/, "");
+    // REST API keys are sent as HTTP Basic credentials over HTTPS
+    this.authorization = `Basic ${Buffer.from(
+      `${config.consumerKey}:${config.consumerSecret}`
+    ).toString("base64")}`;
+  }
+
+  /**
+   * GETs a REST API path, retrying rate limits, server errors, timeouts and
+   * network errors.
+   * Returns null for 404 so single-product lookups can report missing products.
+   */
+  private async request(path: string): Promise<Response | null> {
+    if (!this.storeUrl || !this.authorization) {
+      throw new Error("Plugin not initialized. Call init() first.");
+    }
+
+    const url = `${this.storeUrl}/wp-json/wc/v3${path}`;
+    let lastError = "Unknown error";
+
+    for (let attempt = 1; attempt <= MAX_REQUEST_ATTEMPTS; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: {
+            Authorization: this.authorization,
+            "Content-Type": "application/json",
+          },
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : "Network error";
+        console.warn(
+          `[WooCommerce] ${url} request failed, retrying (attempt ${attempt}/${MAX_REQUEST_ATTEMPTS}):`,
+          error
+        );
+        await sleep(1000 * attempt);
+        continue;
+      }
+
+      if (response.status === 404) return null;
+
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfter = parseFloat(
+          response.headers.get("retry-after") ?? ""
+        );
+        lastError = `${response.status} ${response.statusText}`;
+        console.log(
+          `[WooCommerce] ${url} responded ${lastError}, retrying (attempt ${attempt}/${MAX_REQUEST_ATTEMPTS})`
+        );
+        await sleep(isNaN(retryAfter) ? 1000 * attempt : retryAfter * 1000);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(
+          `WooCommerce request failed: ${response.status} ${response.statusText}. ` +
+            `URL: ${url}. ` +
+            `Response: ${errorText.substring(0, 200)}${errorText.length > 200 ? "..." : ""}`
+        );
+      }
+
+      return response;
+    }
+
+    throw new Error(
+      `WooCommerce request to ${url} failed after ${MAX_REQUEST_ATTEMPTS} attempts: ${lastError}`
+    );
+  }
+
+  /**
+   * Fetches one page of products. totalPages is null when the response
+   * lacks X-WP-TotalPages, which proxies and caching plugins may strip.
+   */
+  private async fetchPage(
+    page: number
+  ): Promise<{ products: Product[]; totalPages: number | null }> {
+    const response = await this.request(
+      `/products?page=${page}&per_page=${PAGE_SIZE}&orderby=id&order=asc`
+    );
+    if (!response) {
+      throw new Error("WooCommerce products endpoint not found");
+    }
+
+    const data = (await response.json()) as unknown;
+    if (!Array.isArray(data)) {
+      throw new Error(
+        `Invalid response format: expected an array of products. Got: ${typeof data}`
+      );
+    }
+
+    const totalPages = parseInt(response.headers.get("x-wp-totalpages") ?? "");
+    return {
+      products: data.map((product) => this.processProduct(product)),
+      totalPages: isNaN(totalPages) ? null : totalPages,
+    };
+  }
+
+  async getAllProducts(checkpoint?: FetchCheckpoint): Promise<ProductList> {
+    return this.collectProducts(checkpoint);
+  }
+
+  async *iterateProducts(
+    checkpoint?: FetchCheckpoint
+  ): AsyncGenerator<ProductList> {
+    // X-WP-TotalPages comes with a fetched page. When the first page is
+    // restored from a checkpoint, or the header is missing, pages are
+    // requested until one comes back short.
+    let totalPages: number | null = null;
+    let lastPageSize = PAGE_SIZE;
+    let fetchedCount = 0;
+    let pageCount = 0;
+    for (
+      let page = 1;
+      totalPages !== null ? page <= totalPages : lastPageSize >= PAGE_SIZE;
+      page++
+    ) {
+      pageCount = page;
+      // Reuse pages saved by an interrupted run instead of fetching them again
+      const savedProducts = checkpoint?.fetchedPages.get(page);
+      if (savedProducts) {
+        console.log(
+          `[WooCommerce] Page ${page} restored ${savedProducts.length} products from checkpoint`
+        );
+        fetchedCount += savedProducts.length;
+        lastPageSize = savedProducts.length;
+        yield { products: savedProducts };
+        continue;
+      }
+
+      const fetched = await this.fetchPage(page);
+      await checkpoint?.savePage(page, fetched.products);
+      totalPages = fetched.totalPages ?? totalPages;
+      console.log(
+        `[WooCommerce] Page ${page} fetched ${fetched.products.length} products${totalPages === null ? "" : `, ${totalPages} pages in total`}`
+      );
+      fetchedCount += fetched.products.length;
+      lastPageSize = fetched.products.length;
+      yield { products: fetched.products };
+    }
+
+    console.log(
+      `[WooCommerce] Fetched ${fetchedCount} total products from ${pageCount} pages`
+    );
+  }
+
+  async getProductById(productId: string): Promise<Product | null> {
+    const response = await this.request(`/products/${productId}`);
+    if (!response) return null;
+
+    return this.processProduct(await response.json());
+  }
+
+  public processProduct(product: unknown): Product {
+    if (!product || typeof product !== "object") {
+      throw new Error("Invalid product data provided");
+    }
+
+    const productObj = product as Partial<WooCommerceProduct>;
+    if (!productObj.id || !productObj.name) {
+      throw new Error("Product must have id and name fields");
+    }
+
+    const description =
+      stripHtml(productObj.description) ||
+      stripHtml(productObj.short_description);
+
+    const categories = (productObj.categories ?? [])
+      .map((category) => category.name)
+      .filter(Boolean);
+
+    // Colour and size get their own lines, other attributes keep their name
+    const attributeLines = (productObj.attributes ?? []).flatMap(
+      (attribute) => {
+        const options = (attribute.options ?? []).filter(Boolean);
+        if (options.length === 0) return [];
+
+        const label = COLOUR_ATTRIBUTE.test(attribute.name)
+          ? "Colors"
+          : SIZE_ATTRIBUTE.test(attribute.name)
+            ? "Sizes"
+            : attribute.name;
+        return [`${label}: ${options.join(", ")}`];
+      }
+    );
+
+    const finalDescription = [
+      description,
+      categories.length > 0 && `Categories: ${categories.join(", ")}`,
+      ...attributeLines,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const images = (productObj.images ?? [])
+      .map((image) => image.src)
+      .filter(Boolean);
+
+    // Hidden products are published but never shown in the catalog
+    const published =
+      productObj.status === "publish" &&
+      productObj.catalog_visibility !== "hidden";
+
+    return {
+      product_id: Number(productObj.id),
+      name: productObj.name,
+      description: finalDescription,
+      images: images.length > 0 ? images : undefined,
+      isPublished: published,
+    };
+  }
+
+  async updateProduct(productInfo: unknown): Promise<Product> {
+    return this.processProduct(productInfo);
+  }
+
+  /**
+   * Fetches a single product to check the store URL and API keys
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    if (!this.storeUrl || !this.authorization) {
+      return connectionFailure(
+        "not_configured",
+        "Store URL, consumer key and consumer secret are required"
+      );
+    }
+
+    return probeConnection({
+      url: `${this.storeUrl}/wp-json/wc/v3/products?per_page=1`,
+      init: {
+        headers: {
+          Authorization: this.authorization,
+          "Content-Type": "application/json",
+        },
+      },
+      readProducts: (body) => {
+        const data = parseJsonBody(body);
+        if (!Array.isArray(data)) {
+          throw new ConnectionProbeError(
+            "malformed_response",
+            "Response is JSON but not an array of products"
+          );
+        }
+        return data as unknown[];
+      },
+      toProduct: (product) => this.processProduct(product),
+      hints: {
+        unauthorized:
+          "The consumer key and secret were rejected. Check them, and that the store is served over HTTPS so Basic credentials are accepted.",
+        forbidden: "The API key needs at least Read permission.",
+        not_found:
+          "The WooCommerce REST API was not found. Check the store URL and that pretty permalinks are enabled.",
+      },
+    });
+  }
+}
+
+export { WooCommercePlugin as WooCommercePluginInfo };
@@ -0,0 +1,31 @@
+import { type NextResponse } from "next/server";
+
+// Helper function to add CORS headers
+export function setCorsHeaders<T extends Response = NextResponse>(
+  response: T,
+  origin?: string | null
+): T {
+  // Check if origin is allowed
+  const isAllowedOrigin =
+    origin &&
+    (origin === "https://styleseeker.app" ||
+      origin === "https://www.styleseeker.app" ||
+      origin.endsWith(".styleseeker.app"));
+
+  if (isAllowedOrigin) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
+    response.headers.set("Access-Control-Allow-Credentials", "true");
+  }
+
+  response.headers.set(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, DELETE, OPTIONS"
+  );
+  response.headers.set(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, X-Requested-With"
+  );
+  response.headers.set("Access-Control-Max-Age", "86400");
+
+  return response;
+}
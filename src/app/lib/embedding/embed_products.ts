@@ -2,10 +2,35 @@ import { Pinecone } from "@pinecone-database/pinecone";
 import createApp from "../conversion/conversion_layer";
 import get_plugin_name from "../conversion/get_plugin_name";
 import visionService from "./multimodal_processor";
+import scheduler from "../scheduler/fair_scheduler";
+import {
+  assertAppBillingActive,
+  getAppPlan,
+  PlanLimitError,
+  type PlanConfig,
+} from "../plans/plans";
+import {
+  consumeVisionDescription,
+  refundVisionDescription,
+} from "../plans/usage";
 import { db } from "../../../server/db";
 import { vectors } from "../../../server/db/schema";
-import { eq, and, inArray } from "drizzle-orm";
-import type { Product } from "../conversion/plugin_class";
+import { eq, and, or, countDistinct, inArray, sql } from "drizzle-orm";
+import {
+  App,
+  type FetchCheckpoint,
+  type Product,
+  type ProductAttributes,
+  type ProductList,
+  type ProductVariant,
+} from "../conversion/plugin_class";
+import {
+  ImportCancelledError,
+  ImportJobLostError,
+  type ImportJobTracker,
+  type ProcessingResult,
+} from "../import_job/import_job";
+import { getIndexingSettings } from "./indexing_settings";
 
 // Simple checksum function that's efficient for text comparison
 function generateChecksum(input: string): string {
@@ -18,6 +43,168 @@ function generateChecksum(input: string): string {
   return Math.abs(sum).toString(36);
 }
 
+/**
+ * Keeps the next value of an iterator in flight while the caller works on
+ * the current one, so fetching overlaps with processing
+ */
+async function* readAhead<T>(iterator: AsyncIterator<T>): AsyncGenerator<T> {
+  let next = iterator.next();
+  next.catch(() => undefined); // rethrown when awaited, never unhandled
+  try {
+    for (let result = await next; !result.done; result = await next) {
+      next = iterator.next();
+      next.catch(() => undefined);
+      yield result.value;
+    }
+  } finally {
+    await iterator.return?.();
+  }
+}
+
+/**
+ * A record to index: a whole product, or one of its colourways when the
+ * app indexes variants
+ */
+interface IndexedProduct extends Product {
+  recordId: string; // Pinecone record and vector row id
+  parentProductId: string | null; // set on colourway records
+  variantColor?: string;
+}
+
+function wholeProduct(product: Product): IndexedProduct {
+  return {
+    ...product,
+    recordId: product.product_id.toString(),
+    parentProductId: null,
+  };
+}
+
+/**
+ * Splits a product into one record per colour of its variants, each with
+ * the colour's variants and images. Products with fewer than two colours,
+ * or whose colours don't each have an image of their own, stay a single
+ * record: colourways sharing the product's images would index near
+ * identical vectors and describe the same images again.
+ */
+function expandColourways(product: Product): IndexedProduct[] {
+  const colourways = new Map<
+    string,
+    { color: string; variants: ProductVariant[]; images?: string[] }
+  >();
+  for (const variant of product.variants ?? []) {
+    if (!variant.color) continue;
+    // Record ids stay ASCII, colour names without any fall back to a hash
+    const key =
+      variant.color
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || generateChecksum(variant.color);
+    const colourway = colourways.get(key);
+    if (colourway) {
+      colourway.variants.push(variant);
+      colourway.images ??= variant.images?.length ? variant.images : undefined;
+    } else {
+      colourways.set(key, {
+        color: variant.color,
+        variants: [variant],
+        images: variant.images?.length ? variant.images : undefined,
+      });
+    }
+  }
+  if (colourways.size < 2) return [wholeProduct(product)];
+
+  const firstImages = new Set(
+    [...colourways.values()].map(({ images }) => images?.[0])
+  );
+  if (firstImages.has(undefined) || firstImages.size < colourways.size) {
+    return [wholeProduct(product)];
+  }
+
+  const productId = product.product_id.toString();
+  return [...colourways].map(([key, { color, variants, images }]) => {
+    const prices = variants.flatMap((variant) => variant.price ?? []);
+    return {
+      ...product,
+      recordId: `${productId}:${key}`,
+      parentProductId: productId,
+      variantColor: color,
+      description: [product.description, `Color: ${color}`]
+        .filter(Boolean)
+        .join("\n"),
+      images,
+      price: prices.length > 0 ? Math.min(...prices) : product.price,
+      colors: [color],
+      variants,
+    };
+  });
+}
+
+// What the product stream has delivered so far
+interface CatalogProgress {
+  fetched: number; // products handed to processing
+  complete: boolean; // the plugin has no more pages
+  unchanged: boolean;
+  truncated: boolean; // stopped at the plan's product cap
+}
+
+// The structured fields of a product, stored next to its searchable text
+function productAttributes(product: Product): ProductAttributes {
+  const { price, currency, variants, categories, colors, brand, url } = product;
+  return { price, currency, variants, categories, colors, brand, url };
+}
+
+// Postgres columns for a product's structured fields
+function attributeColumns(attributes: ProductAttributes) {
+  return {
+    price: attributes.price ?? null,
+    currency: attributes.currency ?? null,
+    brand: attributes.brand ?? null,
+    productUrl: attributes.url ?? null,
+    categories: attributes.categories ?? [],
+    colors: attributes.colors ?? [],
+    variants: attributes.variants ?? [],
+  };
+}
+
+/**
+ * Pinecone record fields for a product's structured fields. Records only
+ * hold strings, numbers, booleans and string lists, so variants are
+ * flattened into sizes, SKUs and stock, and unset fields are left out.
+ */
+function attributeRecordFields(
+  attributes: ProductAttributes
+): Record<string, string | number | boolean | string[]> {
+  const variants = attributes.variants ?? [];
+  const unique = (values: Array<string | undefined>) => [
+    ...new Set(values.filter((value): value is string => Boolean(value))),
+  ];
+
+  const fields: Record<string, string | number | boolean | string[]> = {};
+  if (attributes.price !== undefined) fields.price = attributes.price;
+  if (attributes.currency) fields.currency = attributes.currency;
+  if (attributes.brand) fields.brand = attributes.brand;
+  if (attributes.url) fields.productUrl = attributes.url;
+
+  const categories = unique(attributes.categories ?? []);
+  const colors = unique([
+    ...(attributes.colors ?? []),
+    ...variants.map((variant) => variant.color),
+  ]);
+  const sizes = unique(variants.map((variant) => variant.size));
+  const skus = unique(variants.map((variant) => variant.sku));
+  if (categories.length > 0) fields.categories = categories;
+  if (colors.length > 0) fields.colors = colors;
+  if (sizes.length > 0) fields.sizes = sizes;
+  if (skus.length > 0) fields.skus = skus;
+
+  // Only known when the platform tracks stock for at least one variant
+  const tracked = variants.filter((variant) => variant.stock !== undefined);
+  if (tracked.length > 0) {
+    fields.inStock = tracked.some((variant) => (variant.stock ?? 0) > 0);
+  }
+  return fields;
+}
+
 interface StoreInfo {
   product_id: string;
   product_name: string;
@@ -28,18 +215,17 @@ interface StoreInfo {
   first_image_url?: string;
   image_url_checksum?: string;
   isPublished: boolean;
-}
-
-interface ProcessingResult {
-  message: string;
-  imported_count: number;
-  status: number;
+  attributes: ProductAttributes;
+  parent_product_id: string | null;
+  variant_color?: string;
 }
 
 export class ProductEmbeddingService {
   private pinecone: Pinecone;
   private indexName = "search-ai";
   private namespace: string;
+  private plans = new Map<number, PlanConfig>();
+  private visionLimitReached = new Set<number>();
 
   constructor() {
     if (!process.env.PINECONE_API_KEY) {
@@ -60,7 +246,163 @@ export class ProductEmbeddingService {
     }
   }
 
-  private async getPluginProducts(appId: number) {
+  /**
+   * Looks up the app's subscription plan once per service instance
+   */
+  private async getPlan(appId: number): Promise<PlanConfig> {
+    let plan = this.plans.get(appId);
+    if (!plan) {
+      plan = await getAppPlan(appId);
+      this.plans.set(appId, plan);
+    }
+    return plan;
+  }
+
+  /**
+   * Counts a vision description against the app's plan. Once the monthly
+   * allowance is used up, products are indexed from their text alone.
+   */
+  private async consumeVisionAllowance(
+    product: Product,
+    appId: number
+  ): Promise<boolean> {
+    const plan = await this.getPlan(appId);
+    if (await consumeVisionDescription(appId, plan)) {
+      return true;
+    }
+
+    console.log(
+      `⚠️ Monthly vision allowance of the ${plan.name} plan used up, indexing ${product.name} without image description`
+    );
+    this.visionLimitReached.add(appId);
+    return false;
+  }
+
+  // Failed descriptions don't count against the allowance
+  private async refundVisionAllowance(appId: number): Promise<void> {
+    try {
+      await refundVisionDescription(appId);
+    } catch (error) {
+      console.error(
+        `❌ Failed to refund vision allowance for app ${appId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Refuses to index a product that is new to the app once the plan's
+   * product cap is reached. Updates to indexed products are always allowed.
+   */
+  private async assertProductCapacity(
+    productId: string,
+    appId: number
+  ): Promise<void> {
+    const plan = await this.getPlan(appId);
+    if (plan.maxIndexedProducts === null) return;
+
+    const existingRecords = await this.getRecordIds(appId, productId);
+    if (existingRecords.length > 0) return;
+
+    // A product's colourway records count as one product
+    const [indexed] = await db
+      .select({
+        count: countDistinct(
+          sql`coalesce(${vectors.parentProductId}, ${vectors.productId})`
+        ),
+      })
+      .from(vectors)
+      .where(eq(vectors.appId, appId));
+
+    if ((indexed?.count ?? 0) >= plan.maxIndexedProducts) {
+      throw new PlanLimitError(
+        403,
+        "product_limit",
+        `The ${plan.name} plan allows up to ${plan.maxIndexedProducts} indexed products.`
+      );
+    }
+  }
+
+  // Ids of a product's records: the product itself or its colourways
+  private async getRecordIds(
+    appId: number,
+    productId: string
+  ): Promise<string[]> {
+    const records = await db
+      .select({ productId: vectors.productId })
+      .from(vectors)
+      .where(
+        and(
+          eq(vectors.appId, appId),
+          or(
+            eq(vectors.productId, productId),
+            eq(vectors.parentProductId, productId)
+          )
+        )
+      );
+    return records.map((record) => record.productId);
+  }
+
+  /**
+   * Removes records of these products that their latest expansion no longer
+   * produces: dropped colourways, or the other layout after the app's
+   * variant indexing setting changed. Products with a record that wasn't
+   * written keep their old records, so they stay searchable until a later
+   * run stores every one of their records.
+   */
+  private async removeStaleRecords(
+    appId: number,
+    records: IndexedProduct[],
+    written: StoreInfo[]
+  ): Promise<void> {
+    const writtenIds = new Set(written.map((record) => record.product_id));
+    const incompleteIds = new Set(
+      records
+        .filter((record) => !writtenIds.has(record.recordId))
+        .map((record) => record.parentProductId ?? record.recordId)
+    );
+    const productIds = [
+      ...new Set(
+        records.map((record) => record.parentProductId ?? record.recordId)
+      ),
+    ].filter((productId) => !incompleteIds.has(productId));
+    if (productIds.length === 0) return;
+
+    const recordIds = new Set(records.map((record) => record.recordId));
+    const existing = await db
+      .select({ productId: vectors.productId })
+      .from(vectors)
+      .where(
+        and(
+          eq(vectors.appId, appId),
+          or(
+            inArray(vectors.productId, productIds),
+            inArray(vectors.parentProductId, productIds)
+          )
+        )
+      );
+    const staleIds = existing
+      .map((record) => record.productId)
+      .filter((id) => !recordIds.has(id));
+    if (staleIds.length === 0) return;
+
+    const index = this.pinecone.index(this.indexName);
+    await index.namespace(`app_${appId}`).deleteMany(staleIds);
+    await db
+      .delete(vectors)
+      .where(
+        and(eq(vectors.appId, appId), inArray(vectors.productId, staleIds))
+      );
+    console.log(
+      `[Database] Removed ${staleIds.length} records replaced by the current colourways`
+    );
+  }
+
+  private async *getPluginProducts(
+    appId: number,
+    checkpoint?: FetchCheckpoint,
+    tracker?: ImportJobTracker
+  ): AsyncGenerator<ProductList> {
     try {
       const plugin_name = await get_plugin_name(String(appId));
       if (!plugin_name) {
@@ -69,17 +411,75 @@ export class ProductEmbeddingService {
 
       const app = createApp(plugin_name, String(appId));
       await app.init(); // Make sure to initialize the app
-      return app.getAllProducts();
+      yield* app.iterateProducts(checkpoint);
     } catch (error) {
       console.error(`Failed to get products for app ${appId}:`, error);
+      await tracker?.emit({
+        type: "failure",
+        stage: "fetch",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
       throw new Error(
         `Failed to get products for app ${appId}: ${error instanceof Error ? error.message : "Unknown error"}`
       );
     }
   }
 
+  /**
+   * Regroups the plugin's pages into processing batches as they arrive,
+   * stopping at the plan's product cap
+   */
+  private async *batchProducts(
+    pages: AsyncIterable<ProductList>,
+    batchSize: number,
+    plan: PlanConfig,
+    progress: CatalogProgress,
+    tracker?: ImportJobTracker
+  ): AsyncGenerator<Product[]> {
+    const productLimit = plan.maxIndexedProducts;
+    let batch: Product[] = [];
+
+    for await (const page of pages) {
+      if (page.unchanged) {
+        progress.unchanged = true;
+        return;
+      }
+      if (!Array.isArray(page.products)) {
+        throw new Error("Invalid products data returned by the plugin");
+      }
+
+      for (const product of page.products) {
+        if (productLimit !== null && progress.fetched >= productLimit) {
+          progress.truncated = true;
+          break;
+        }
+        batch.push(product);
+        progress.fetched++;
+        if (batch.length === batchSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+      if (progress.truncated && productLimit !== null) {
+        console.log(
+          `⚠️ Catalog exceeds the ${plan.name} plan limit, importing the first ${productLimit} products`
+        );
+        await tracker?.emit({
+          type: "limit_reached",
+          limit: "products",
+          plan: plan.name,
+          max: productLimit,
+        });
+        break; // stops the plugin fetching further pages
+      }
+    }
+
+    progress.complete = true;
+    if (batch.length > 0) yield batch;
+  }
+
   public async processProduct(
-    product: Product,
+    product: IndexedProduct,
     appId: number
   ): Promise<StoreInfo | null> {
     const firstImageUrl =
@@ -108,12 +508,14 @@ export class ProductEmbeddingService {
       }
     }
 
-    // Process images only if we don't have an existing description
+    // Process images only if we don't have an existing description and the
+    // plan's monthly vision allowance is not used up
     let imageDescription = existingImageDescription;
     if (
       product.images &&
       product.images.length > 0 &&
-      !existingImageDescription
+      !existingImageDescription &&
+      (await this.consumeVisionAllowance(product, appId))
     ) {
       console.log(
         `\n🖼️ Processing ${product.images.length} images for: ${product.name}`
@@ -126,6 +528,7 @@ export class ProductEmbeddingService {
 
         if (!imageDescription) {
           console.log("❌ Vision service returned empty description");
+          await this.refundVisionAllowance(appId);
         } else {
           // Format image description with proper newlines
           imageDescription = imageDescription
@@ -153,6 +556,7 @@ export class ProductEmbeddingService {
             stack: error.stack,
           });
         }
+        await this.refundVisionAllowance(appId);
       }
     }
 
@@ -161,7 +565,7 @@ export class ProductEmbeddingService {
     const finalTextChecksum = generateChecksum(finalText);
 
     return {
-      product_id: product.product_id.toString(),
+      product_id: product.recordId,
       product_name: product.name,
       product_description: product.description ?? "",
       text: finalText,
@@ -170,12 +574,17 @@ export class ProductEmbeddingService {
       first_image_url: firstImageUrl,
       image_url_checksum: imageUrlChecksum,
       isPublished: product.isPublished,
+      attributes: productAttributes(product),
+      parent_product_id: product.parentProductId,
+      variant_color: product.variantColor,
     };
   }
 
   private async batchInsertProducts(
     products: StoreInfo[],
-    appId: number
+    appId: number,
+    tracker?: ImportJobTracker,
+    processingBatchNumber?: number
   ): Promise<void> {
     if (products.length === 0) return;
 
@@ -185,6 +594,9 @@ export class ProductEmbeddingService {
     // Define batch size for Pinecone operations (to avoid 413 errors)
     const PINECONE_BATCH_SIZE = 50;
 
+    // Upserts share this process's Pinecone capacity fairly between apps
+    const plan = await this.getPlan(appId);
+
     try {
       // Create Pinecone records
       const pineconeRecords = products.map((product) => ({
@@ -196,6 +608,11 @@ export class ProductEmbeddingService {
         productDescription: product.product_description,
         productId: product.product_id.toString(),
         isPublished: product.isPublished,
+        // Lets search collapse colourways back into their product
+        parentProductId: product.parent_product_id ?? product.product_id,
+        isVariant: product.parent_product_id !== null,
+        ...(product.variant_color && { variantColor: product.variant_color }),
+        ...attributeRecordFields(product.attributes),
       }));
 
       console.log(
@@ -221,10 +638,19 @@ export class ProductEmbeddingService {
         });
 
         try {
-          await index.namespace(namespace).upsertRecords(batch);
+          await scheduler.run("pinecone", appId, plan, () =>
+            index.namespace(namespace).upsertRecords(batch)
+          );
           console.log(
             `[Pinecone] Successfully upserted batch ${batchNumber}/${totalBatches}`
           );
+          await tracker?.emit({
+            type: "pinecone_batch_upserted",
+            batch: processingBatchNumber ?? 1,
+            pineconeBatch: batchNumber,
+            totalPineconeBatches: totalBatches,
+            count: batch.length,
+          });
         } catch (batchError) {
           console.error(
             `[Pinecone] Failed to upsert batch ${batchNumber}/${totalBatches}:`,
@@ -256,6 +682,8 @@ export class ProductEmbeddingService {
             imageUrls: product.image_url_checksum ?? "",
             imageDescription: product.image_description,
             isPublished: product.isPublished,
+            parentProductId: product.parent_product_id,
+            ...attributeColumns(product.attributes),
           })
           .onConflictDoUpdate({
             target: [vectors.appId, vectors.productId],
@@ -265,6 +693,8 @@ export class ProductEmbeddingService {
               imageUrls: product.image_url_checksum ?? "",
               imageDescription: product.image_description,
               isPublished: product.isPublished,
+              parentProductId: product.parent_product_id,
+              ...attributeColumns(product.attributes),
             },
           });
       }
@@ -277,67 +707,161 @@ export class ProductEmbeddingService {
   }
 
   public async processAndStoreProducts(
-    appId: number
+    appId: number,
+    tracker?: ImportJobTracker
   ): Promise<ProcessingResult> {
     try {
-      const { products } = await this.getPluginProducts(appId);
-
-      if (!products || !Array.isArray(products)) {
-        throw new Error(`Invalid products data returned for app ${appId}`);
+      // Imports triggered by the scheduler or a resume skip the route's checks
+      await assertAppBillingActive(appId);
+      const plan = await this.getPlan(appId);
+
+      // A resumed job picks up the pages and batches its previous run completed
+      const checkpoint = await tracker?.getCheckpoint();
+      const completedBatches = checkpoint?.completedBatches ?? 0;
+      const failedBatches = [...(checkpoint?.failedBatches.keys() ?? [])];
+      if (completedBatches > 0) {
+        console.log(
+          `Resuming import for app ${appId} after batch ${completedBatches} (${checkpoint?.fetchedPages.size ?? 0} pages already fetched${failedBatches.length > 0 ? `, retrying failed batches ${failedBatches.join(", ")}` : ""})`
+        );
       }
 
+      await tracker?.setPhase("fetching");
+      const PROCESSING_BATCH_SIZE = 100;
+      const progress: CatalogProgress = {
+        fetched: 0,
+        complete: false,
+        unchanged: false,
+        truncated: false,
+      };
+      const batches = readAhead(
+        this.batchProducts(
+          this.getPluginProducts(appId, checkpoint, tracker),
+          PROCESSING_BATCH_SIZE,
+          plan,
+          progress,
+          tracker
+        )
+      );
+
       console.log(
-        `Processing ${products.length} products for app ${appId} in batches of 100`
+        `Processing products for app ${appId} in batches of ${PROCESSING_BATCH_SIZE} as they are fetched`
       );
 
-      const PROCESSING_BATCH_SIZE = 100;
-      let totalProcessedProducts = 0;
-      const totalBatches = Math.ceil(products.length / PROCESSING_BATCH_SIZE);
+      const { variantIndexing } = await getIndexingSettings(appId);
+      let totalProcessedProducts = checkpoint?.processedProducts ?? 0;
+      let visionLimitReported = false;
+      let batchNumber = 0;
+      let processedBatches = 0;
+
+      // Each batch runs through the entire pipeline while the next one is fetched
+      for await (const batch of batches) {
+        batchNumber++;
+
+        // The product count grows as the catalog arrives, the batch count is
+        // only known once it is complete
+        const totalBatches = progress.complete
+          ? Math.ceil(progress.fetched / PROCESSING_BATCH_SIZE)
+          : null;
+        await tracker?.setTotals(progress.fetched, totalBatches);
+
+        // Batches whose upsert failed are run again
+        const previousRun = checkpoint?.failedBatches.get(batchNumber);
+        if (batchNumber <= completedBatches && !previousRun) {
+          console.log(
+            `⏭️ [Batch ${batchNumber}] Already completed by a previous run, skipping`
+          );
+          continue;
+        }
 
-      // Process products in batches of 100 through the entire pipeline
-      for (let i = 0; i < products.length; i += PROCESSING_BATCH_SIZE) {
-        const batch = products.slice(i, i + PROCESSING_BATCH_SIZE);
-        const batchNumber = Math.floor(i / PROCESSING_BATCH_SIZE) + 1;
+        // Small delay between batches to prevent overwhelming the system
+        if (processedBatches > 0) {
+          console.log(
+            `[Batch ${batchNumber}] Waiting 1 second after the previous batch...`
+          );
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        }
+        processedBatches++;
+
+        // Stop cooperatively between batches when the job was cancelled
+        await tracker?.throwIfCancelled();
 
+        const records = variantIndexing
+          ? batch.flatMap(expandColourways)
+          : batch.map(wholeProduct);
         console.log(
-          `\n🔄 Processing batch ${batchNumber}/${totalBatches} (${batch.length} products)`
+          `\n🔄 Processing batch ${batchNumber}/${totalBatches ?? "?"} (${batch.length} products${records.length > batch.length ? `, ${records.length} colourway records` : ""})`
         );
+        await tracker?.emit({
+          type: "batch_started",
+          batch: batchNumber,
+          totalBatches,
+          size: batch.length,
+        });
 
         // Step 1: Process multimodal for this batch IN PARALLEL
+        await tracker?.setPhase("describing");
         console.log(
           `[Batch ${batchNumber}] Step 1: Processing with multimodal processor (PARALLEL)...`
         );
 
         const startTime = Date.now();
-        const processedProducts = await this.processProductsBatchParallel(
-          batch,
-          appId,
-          batchNumber
-        );
+        const { results: processedProducts, skipped } =
+          await this.processProductsBatchParallel(
+            records,
+            appId,
+            batchNumber,
+            tracker
+          );
         const endTime = Date.now();
         const processingTimeSeconds = ((endTime - startTime) / 1000).toFixed(1);
 
         console.log(
-          `[Batch ${batchNumber}] Completed ${processedProducts.length}/${batch.length} products in ${processingTimeSeconds}s`
+          `[Batch ${batchNumber}] Completed ${processedProducts.length}/${records.length} records in ${processingTimeSeconds}s`
         );
 
+        // Counted per product, a product counts once any of its colourways does
+        const describedIds = new Set(
+          processedProducts.map(
+            (product) => product.parent_product_id ?? product.product_id
+          )
+        );
+        const describedCount = describedIds.size;
+
         // Step 2: Store this batch in database and Pinecone
+        let storedCount = 0;
+        let upsertFailed = false;
         if (processedProducts.length > 0) {
           console.log(
             `[Batch ${batchNumber}] Step 2: Storing ${processedProducts.length} products in database and Pinecone...`
           );
 
           try {
-            await this.batchInsertProducts(processedProducts, appId);
-            totalProcessedProducts += processedProducts.length;
+            await tracker?.setPhase("upserting");
+            await this.batchInsertProducts(
+              processedProducts,
+              appId,
+              tracker,
+              batchNumber
+            );
+            await this.removeStaleRecords(appId, records, processedProducts);
+            storedCount = describedCount;
+            totalProcessedProducts += storedCount;
             console.log(
-              `✅ [Batch ${batchNumber}] Successfully stored ${processedProducts.length} products. Total processed: ${totalProcessedProducts}/${products.length}`
+              `✅ [Batch ${batchNumber}] Successfully stored ${storedCount} products. Total processed: ${totalProcessedProducts}/${progress.fetched}`
             );
           } catch (error) {
+            if (error instanceof ImportJobLostError) throw error;
             console.error(
               `❌ [Batch ${batchNumber}] Failed to store products:`,
               error
             );
+            upsertFailed = true;
+            await tracker?.emit({
+              type: "failure",
+              stage: "upsert",
+              batch: batchNumber,
+              message: error instanceof Error ? error.message : "Unknown error",
+            });
             // Continue with next batch even if this one fails
           }
         } else {
@@ -346,24 +870,73 @@ export class ProductEmbeddingService {
           );
         }
 
-        // Small delay between batches to prevent overwhelming the system
-        if (i + PROCESSING_BATCH_SIZE < products.length) {
-          console.log(
-            `[Batch ${batchNumber}] Waiting 1 second before next batch...`
-          );
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+        if (
+          this.visionLimitReached.has(appId) &&
+          !visionLimitReported &&
+          plan.monthlyVisionDescriptions !== null
+        ) {
+          visionLimitReported = true;
+          await tracker?.emit({
+            type: "limit_reached",
+            limit: "vision",
+            plan: plan.name,
+            max: plan.monthlyVisionDescriptions,
+          });
+        }
+
+        const skippedCount = new Set(
+          skipped
+            .map((record) => record.parentProductId ?? record.recordId)
+            .filter((id) => !describedIds.has(id))
+        ).size;
+        await tracker?.recordBatch(
+          {
+            batch: batchNumber,
+            size: batch.length,
+            described: describedCount,
+            stored: storedCount,
+            failed: batch.length - storedCount - skippedCount,
+            skipped: skippedCount,
+            ...(upsertFailed && { upsertFailed }),
+            durationMs: Date.now() - startTime,
+          },
+          previousRun
+        );
+
+        // The batch was cut short by a cancel, its described products are stored
+        if (skipped.length > 0 && tracker) {
+          throw new ImportCancelledError(tracker.jobId);
         }
       }
 
+      // Nothing to re-describe or upsert when the source reports no changes
+      if (progress.unchanged) {
+        console.log(
+          `Catalog for app ${appId} is unchanged since the last import, skipping`
+        );
+        return {
+          message: "Catalog unchanged since the last import, nothing to update",
+          imported_count: 0,
+          status: 200,
+        };
+      }
+
+      const totalProducts = progress.fetched;
+      await tracker?.setTotals(totalProducts, batchNumber);
       console.log(
-        `\n🎉 Completed processing all ${totalBatches} batches. Total products processed: ${totalProcessedProducts}/${products.length}`
+        `\n🎉 Completed processing all ${batchNumber} batches. Total products processed: ${totalProcessedProducts}/${totalProducts}`
       );
 
+      const truncationNote = progress.truncated
+        ? ` (catalog truncated to the ${plan.name} plan limit of ${totalProducts})`
+        : "";
+
       return {
         message:
-          totalProcessedProducts === products.length
+          (totalProcessedProducts === totalProducts
             ? "All products processed and stored successfully"
-            : `Processed ${totalProcessedProducts} out of ${products.length} products`,
+            : `Processed ${totalProcessedProducts} out of ${totalProducts} products`) +
+          truncationNote,
         imported_count: totalProcessedProducts,
         status: totalProcessedProducts > 0 ? 200 : 500,
       };
@@ -377,10 +950,11 @@ export class ProductEmbeddingService {
    * Process a batch of products in parallel for much faster multimodal processing
    */
   private async processProductsBatchParallel(
-    products: Product[],
+    products: IndexedProduct[],
     appId: number,
-    batchNumber: number
-  ): Promise<StoreInfo[]> {
+    batchNumber: number,
+    tracker?: ImportJobTracker
+  ): Promise<{ results: StoreInfo[]; skipped: IndexedProduct[] }> {
     // Pre-fetch existing image descriptions for this batch to avoid unnecessary API calls
     const imageChecksums = products
       .map((p) => (p.images?.[0] ? generateChecksum(p.images[0]) : null))
@@ -420,8 +994,8 @@ export class ProductEmbeddingService {
     }
 
     // Separate products that need image processing vs those that don't
-    const productsNeedingImageProcessing: Product[] = [];
-    const productsWithCachedImages: Product[] = [];
+    const productsNeedingImageProcessing: IndexedProduct[] = [];
+    const productsWithCachedImages: IndexedProduct[] = [];
 
     for (const product of products) {
       const firstImageUrl = product.images?.[0];
@@ -442,8 +1016,10 @@ export class ProductEmbeddingService {
       `[Batch ${batchNumber}] ${productsWithCachedImages.length} products have cached data, ${productsNeedingImageProcessing.length} need image processing`
     );
 
-    // Maximum concurrent API calls to avoid overwhelming OpenRouter
-    const MAX_CONCURRENT_API_CALLS = 10;
+    // Concurrent vision calls for this app come from its subscription plan,
+    // and every call waits for a fair share of this process's vision capacity
+    const plan = await this.getPlan(appId);
+    const MAX_CONCURRENT_API_CALLS = plan.visionConcurrency;
 
     // Process products in smaller concurrent groups
     const results: StoreInfo[] = [];
@@ -458,21 +1034,46 @@ export class ProductEmbeddingService {
         );
         if (result) {
           results.push(result);
+          if (result.image_description) {
+            await tracker?.emit({
+              type: "cache_hit",
+              batch: batchNumber,
+              productId: result.product_id,
+            });
+          }
         }
       } catch (error) {
         console.error(
-          `[Batch ${batchNumber}] ❌ Failed to process cached product ${product.product_id}:`,
+          `[Batch ${batchNumber}] ❌ Failed to process cached product ${product.recordId}:`,
           error
         );
+        await tracker?.emit({
+          type: "failure",
+          stage: "describe",
+          batch: batchNumber,
+          productId: product.recordId,
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
       }
     }
 
     // Then process products that need image processing in parallel
+    let skipped: IndexedProduct[] = [];
     for (
       let i = 0;
       i < productsNeedingImageProcessing.length;
       i += MAX_CONCURRENT_API_CALLS
     ) {
+      // Stop cooperatively between concurrent groups when the job was cancelled
+      tracker?.throwIfLost();
+      if (await tracker?.isCancelRequested()) {
+        skipped = productsNeedingImageProcessing.slice(i);
+        console.log(
+          `[Batch ${batchNumber}] 🛑 Import cancelled, skipping ${skipped.length} remaining products`
+        );
+        break;
+      }
+
       const concurrentGroup = productsNeedingImageProcessing.slice(
         i,
         i + MAX_CONCURRENT_API_CALLS
@@ -485,18 +1086,32 @@ export class ProductEmbeddingService {
       // Process this group of products in parallel
       const promises = concurrentGroup.map(async (product) => {
         try {
-          const result = await this.processProduct(product, appId);
+          const result = await scheduler.run("vision", appId, plan, () =>
+            this.processProduct(product, appId)
+          );
           if (result) {
             console.log(
               `[Batch ${batchNumber}] ✅ Processed product ${result.product_id} (with new image processing)`
             );
+            await tracker?.emit({
+              type: "product_described",
+              batch: batchNumber,
+              productId: result.product_id,
+            });
           }
           return result;
         } catch (error) {
           console.error(
-            `[Batch ${batchNumber}] ❌ Failed to process product ${product.product_id}:`,
+            `[Batch ${batchNumber}] ❌ Failed to process product ${product.recordId}:`,
             error
           );
+          await tracker?.emit({
+            type: "failure",
+            stage: "describe",
+            batch: batchNumber,
+            productId: product.recordId,
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
           return null;
         }
       });
@@ -520,14 +1135,14 @@ export class ProductEmbeddingService {
       }
     }
 
-    return results;
+    return { results, skipped };
   }
 
   /**
    * Process a product that has cached image description (fast path)
    */
   private async processProductWithCache(
-    product: Product,
+    product: IndexedProduct,
     appId: number,
     cachedDescriptions: Map<string, string>
   ): Promise<StoreInfo | null> {
@@ -547,7 +1162,7 @@ export class ProductEmbeddingService {
     const finalTextChecksum = generateChecksum(finalText);
 
     return {
-      product_id: product.product_id.toString(),
+      product_id: product.recordId,
       product_name: product.name,
       product_description: product.description ?? "",
       text: finalText,
@@ -556,6 +1171,9 @@ export class ProductEmbeddingService {
       first_image_url: firstImageUrl,
       image_url_checksum: imageUrlChecksum,
       isPublished: product.isPublished,
+      attributes: productAttributes(product),
+      parent_product_id: product.parentProductId,
+      variant_color: product.variantColor,
     };
   }
 
@@ -564,9 +1182,26 @@ export class ProductEmbeddingService {
     appId: number
   ): Promise<ProcessingResult> {
     try {
-      const processedProduct = await this.processProduct(product, appId);
-      if (processedProduct) {
-        await this.batchInsertProducts([processedProduct], appId);
+      await assertAppBillingActive(appId);
+      await this.assertProductCapacity(product.product_id.toString(), appId);
+
+      const { variantIndexing } = await getIndexingSettings(appId);
+      const records = variantIndexing
+        ? expandColourways(product)
+        : [wholeProduct(product)];
+
+      const plan = await this.getPlan(appId);
+      const processedRecords: StoreInfo[] = [];
+      for (const record of records) {
+        const processedRecord = await scheduler.run("vision", appId, plan, () =>
+          this.processProduct(record, appId)
+        );
+        if (processedRecord) processedRecords.push(processedRecord);
+      }
+
+      if (processedRecords.length > 0) {
+        await this.batchInsertProducts(processedRecords, appId);
+        await this.removeStaleRecords(appId, records, processedRecords);
         return {
           message: "Product processed and stored successfully",
           imported_count: 1,
@@ -594,13 +1229,20 @@ export class ProductEmbeddingService {
       const index = this.pinecone.index(this.indexName);
       const namespace = `app_${appId}`;
 
+      // The product's own record and any colourway records
+      const recordIds = [
+        ...new Set([productId, ...(await this.getRecordIds(appId, productId))]),
+      ];
+
       // Delete from Pinecone
-      await index.namespace(namespace).deleteOne(productId);
+      await index.namespace(namespace).deleteMany(recordIds);
 
       // Delete from your database
       await db
         .delete(vectors)
-        .where(and(eq(vectors.appId, appId), eq(vectors.productId, productId)));
+        .where(
+          and(eq(vectors.appId, appId), inArray(vectors.productId, recordIds))
+        );
 
       return {
         success: true,
@@ -628,19 +1270,27 @@ export class ProductEmbeddingService {
       const index = this.pinecone.index(this.indexName);
       const namespace = `app_${appId}`;
 
+      const existingRecords = await this.getRecordIds(appId, productId);
+      const recordIds =
+        existingRecords.length > 0 ? existingRecords : [productId];
+
       // Update in Pinecone - you need to update the metadata, not the vector itself
-      await index.namespace(namespace).update({
-        id: productId,
-        metadata: {
-          isPublished: isPublished,
-        },
-      });
+      for (const recordId of recordIds) {
+        await index.namespace(namespace).update({
+          id: recordId,
+          metadata: {
+            isPublished: isPublished,
+          },
+        });
+      }
 
       // Update in your database
       await db
         .update(vectors)
         .set({ isPublished: isPublished })
-        .where(and(eq(vectors.appId, appId), eq(vectors.productId, productId)));
+        .where(
+          and(eq(vectors.appId, appId), inArray(vectors.productId, recordIds))
+        );
 
       return {
         success: true,
@@ -665,11 +1315,9 @@ export class ProductEmbeddingService {
   ): Promise<{ success: boolean; message: string }> {
     try {
       // First, check if the product exists in our database
-      const existingProduct = await db.query.vectors.findFirst({
-        where: and(eq(vectors.appId, appId), eq(vectors.productId, productId)),
-      });
+      const existingRecords = await this.getRecordIds(appId, productId);
 
-      if (existingProduct) {
+      if (existingRecords.length > 0) {
         // Product exists, just update the published status
         return await this.setPublishedStatus(productId, appId, isPublished);
       } else {
@@ -682,8 +1330,12 @@ export class ProductEmbeddingService {
         const app = createApp(plugin_name, String(appId));
         await app.init();
 
-        // Check if the plugin has a getProductById method
-        if (typeof app.getProductById === "function") {
+        if (App.supports(plugin_name, "singleProductFetch")) {
+          if (!app.getProductById) {
+            throw new Error(
+              `Plugin ${plugin_name} declares singleProductFetch but does not implement getProductById`
+            );
+          }
           const product = await app.getProductById(productId);
           if (product) {
             // Override the published status with the webhook value
@@ -0,0 +1,56 @@
+import { db } from "../../../server/db";
+import { apps } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import { listPlugins } from "../conversion/conversion_layer";
+
+export interface IndexingSettings {
+  variantIndexing: boolean; // one record per colourway instead of per product
+}
+
+export class IndexingSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexingSettingsError";
+  }
+}
+
+export async function getIndexingSettings(
+  appId: number
+): Promise<IndexingSettings> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.appId, appId),
+    columns: { indexVariants: true },
+  });
+  return { variantIndexing: app?.indexVariants ?? false };
+}
+
+/**
+ * Saves an app's indexing settings. They apply from the next import, which
+ * replaces the records indexed under the previous settings.
+ */
+export async function updateIndexingSettings(
+  appId: number,
+  settings: Partial<IndexingSettings>
+): Promise<IndexingSettings> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.appId, appId),
+    columns: { pluginName: true, indexVariants: true },
+  });
+  if (!app) {
+    throw new Error(`App ${appId} not found`);
+  }
+
+  const variantIndexing = settings.variantIndexing ?? app.indexVariants;
+  const plugin = listPlugins().find(({ name }) => name === app.pluginName);
+  if (variantIndexing && !plugin?.capabilities.variants) {
+    throw new IndexingSettingsError(
+      `The ${app.pluginName} plugin does not import variants with their own colour and images`
+    );
+  }
+
+  await db
+    .update(apps)
+    .set({ indexVariants: variantIndexing })
+    .where(eq(apps.appId, appId));
+  return { variantIndexing };
+}
@@ -0,0 +1,97 @@
+// Delimiters tried when sniffing a CSV header, in order of preference
+const CANDIDATE_DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Picks the delimiter that splits the header line into the most columns,
+ * so spreadsheets exported with semicolons or tabs work too
+ */
+function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export interface CsvRecord {
+  line: number; // physical line the record starts on, 1-based
+  cells: string[];
+}
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain delimiters, newlines and
+ * doubled quotes. Returns every record, including the header, as raw strings
+ * along with the line it starts on, which quoted newlines push down.
+ */
+export function parseCsv(
+  text: string,
+  delimiter = detectDelimiter(text)
+): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  // Strip the byte order mark Excel puts in UTF-8 exports
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        // A lone \r ends a line too, \r\n is counted at its \n
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push({ line: recordLine, cells: record });
+      record = [];
+      field = "";
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV ends inside a quoted field");
+  }
+
+  // Last record without a trailing newline
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, cells: record });
+  }
+
+  return records;
+}
@@ -0,0 +1,547 @@
+import { db } from "../../../server/db";
+import { feedUploads, pluginConfigFeed } from "../../../server/db/schema";
+import { eq, and, desc, lt, sql } from "drizzle-orm";
+import { parseCsv, type CsvRecord } from "./csv";
+import type { Product } from "../conversion/plugin_class";
+
+export type FeedFormat = "csv" | "json" | "ndjson";
+
+/**
+ * Which feed column fills each Product field. JSON feeds may use dot paths
+ * such as "media.images". Column names are matched case-insensitively.
+ */
+export interface FeedColumnMapping {
+  product_id: string;
+  name: string;
+  description?: string | string[]; // extra columns are appended as "<column>: <value>"
+  images?: string | string[]; // cells may hold several URLs separated by "|", "," or spaces
+  isPublished?: string; // without this column every product is published
+}
+
+export interface FeedRowError {
+  row: number; // CSV line the record starts on (header is line 1), or 1-based position in JSON/NDJSON
+  field?: keyof Product;
+  message: string;
+}
+
+export interface FeedParseResult {
+  format: FeedFormat;
+  totalRows: number;
+  products: Product[];
+  errors: FeedRowError[];
+  errorCount: number;
+}
+
+export type FeedUpload = typeof feedUploads.$inferSelect;
+
+// Upload summary without the products themselves
+export type FeedUploadSummary = Omit<FeedUpload, "products">;
+
+/**
+ * Thrown when a whole feed or mapping is unusable, as opposed to single rows
+ */
+export class FeedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedFormatError";
+  }
+}
+
+export const DEFAULT_FEED_MAPPING: FeedColumnMapping = {
+  product_id: "product_id",
+  name: "name",
+  description: "description",
+  images: "images",
+  isPublished: "published",
+};
+
+// Largest feed accepted in one upload
+export const MAX_FEED_BYTES = 20 * 1024 * 1024;
+
+// Row errors reported per upload, errorCount still covers all of them
+export const MAX_REPORTED_ROW_ERRORS = 100;
+
+// Longest product name the vector table stores
+const MAX_NAME_LENGTH = 255;
+
+const TRUE_VALUES = ["true", "1", "yes", "y", "published", "active"];
+const FALSE_VALUES = [
+  "false",
+  "0",
+  "no",
+  "n",
+  "unpublished",
+  "draft",
+  "inactive",
+  "hidden",
+];
+
+const FORMAT_CONTENT_TYPES: Record<string, FeedFormat> = {
+  "text/csv": "csv",
+  "application/csv": "csv",
+  "application/json": "json",
+  "application/x-ndjson": "ndjson",
+  "application/ndjson": "ndjson",
+  "application/jsonl": "ndjson",
+  "application/x-jsonlines": "ndjson",
+};
+
+const FORMAT_EXTENSIONS: Record<string, FeedFormat> = {
+  csv: "csv",
+  json: "json",
+  ndjson: "ndjson",
+  jsonl: "ndjson",
+};
+
+interface FeedRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Works out the feed format from an explicit value, the content type or the
+ * file extension, in that order
+ */
+export function detectFeedFormat(
+  explicit: string | null,
+  contentType: string | null,
+  fileName: string | null
+): FeedFormat | null {
+  if (explicit) {
+    return FORMAT_EXTENSIONS[explicit.toLowerCase()] ?? null;
+  }
+
+  const mimeType = contentType?.split(";")[0]?.trim().toLowerCase();
+  if (mimeType && FORMAT_CONTENT_TYPES[mimeType]) {
+    return FORMAT_CONTENT_TYPES[mimeType];
+  }
+
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  return extension ? (FORMAT_EXTENSIONS[extension] ?? null) : null;
+}
+
+/**
+ * Validates a mapping sent by a client
+ */
+export function parseFeedMapping(value: unknown): FeedColumnMapping {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new FeedFormatError("Column mapping must be a JSON object");
+  }
+
+  const mapping = value as Record<string, unknown>;
+  const isColumn = (column: unknown) =>
+    typeof column === "string" && column.trim() !== "";
+  const isColumns = (columns: unknown) =>
+    columns === undefined ||
+    isColumn(columns) ||
+    (Array.isArray(columns) && columns.length > 0 && columns.every(isColumn));
+
+  if (!isColumn(mapping.product_id) || !isColumn(mapping.name)) {
+    throw new FeedFormatError(
+      "Column mapping must name the product_id and name columns"
+    );
+  }
+  if (!isColumns(mapping.description) || !isColumns(mapping.images)) {
+    throw new FeedFormatError(
+      "description and images must be a column name or a list of column names"
+    );
+  }
+  if (mapping.isPublished !== undefined && !isColumn(mapping.isPublished)) {
+    throw new FeedFormatError("isPublished must be a column name");
+  }
+
+  return {
+    product_id: mapping.product_id as string,
+    name: mapping.name as string,
+    description: mapping.description as FeedColumnMapping["description"],
+    images: mapping.images as FeedColumnMapping["images"],
+    isPublished: mapping.isPublished as string | undefined,
+  };
+}
+
+function readRows(
+  text: string,
+  format: FeedFormat
+): {
+  rows: FeedRow[];
+  errors: FeedRowError[];
+} {
+  switch (format) {
+    case "csv": {
+      let records: CsvRecord[];
+      try {
+        records = parseCsv(text);
+      } catch (error) {
+        throw new FeedFormatError(
+          `Invalid CSV: ${error instanceof Error ? error.message : "unknown error"}`
+        );
+      }
+
+      const [header, ...dataRecords] = records;
+      if (!header) throw new FeedFormatError("CSV feed is empty");
+      const columns = header.cells.map((column) => column.trim());
+
+      const rows = dataRecords.flatMap(({ line, cells }) => {
+        // Blank lines in spreadsheets are not products
+        if (cells.every((cell) => cell.trim() === "")) return [];
+        return [
+          {
+            row: line,
+            values: Object.fromEntries(
+              columns.map((column, i) => [column, cells[i] ?? ""])
+            ),
+          },
+        ];
+      });
+      return { rows, errors: [] };
+    }
+
+    case "json": {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        throw new FeedFormatError(
+          `Invalid JSON: ${error instanceof Error ? error.message : "unknown error"}`
+        );
+      }
+
+      // Either an array of products or an object with a products array
+      const items = Array.isArray(data)
+        ? data
+        : (data as { products?: unknown } | null)?.products;
+      if (!Array.isArray(items)) {
+        throw new FeedFormatError(
+          'JSON feed must be an array of products or { "products": [...] }'
+        );
+      }
+
+      const rows: FeedRow[] = [];
+      const errors: FeedRowError[] = [];
+      items.forEach((item, index) => {
+        if (item && typeof item === "object" && !Array.isArray(item)) {
+          rows.push({
+            row: index + 1,
+            values: item as Record<string, unknown>,
+          });
+        } else {
+          errors.push({ row: index + 1, message: "Row is not an object" });
+        }
+      });
+      return { rows, errors };
+    }
+
+    case "ndjson": {
+      const rows: FeedRow[] = [];
+      const errors: FeedRowError[] = [];
+      text.split(/\r?\n/).forEach((line, index) => {
+        if (line.trim() === "") return;
+        try {
+          const item: unknown = JSON.parse(line);
+          if (item && typeof item === "object" && !Array.isArray(item)) {
+            rows.push({
+              row: index + 1,
+              values: item as Record<string, unknown>,
+            });
+          } else {
+            errors.push({ row: index + 1, message: "Line is not an object" });
+          }
+        } catch {
+          errors.push({ row: index + 1, message: "Line is not valid JSON" });
+        }
+      });
+      return { rows, errors };
+    }
+  }
+}
+
+/**
+ * Looks a column up by exact name, then case-insensitively, then as a dot path
+ */
+function getValue(values: Record<string, unknown>, column: string): unknown {
+  if (column in values) return values[column];
+
+  const lowerColumn = column.toLowerCase();
+  const key = Object.keys(values).find(
+    (candidate) => candidate.toLowerCase() === lowerColumn
+  );
+  if (key !== undefined) return values[key];
+
+  return column.split(".").reduce<unknown>((current, part) => {
+    return current && typeof current === "object"
+      ? (current as Record<string, unknown>)[part]
+      : undefined;
+  }, values);
+}
+
+function asText(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return "";
+}
+
+function toColumns(columns: string | string[] | undefined): string[] {
+  if (columns === undefined) return [];
+  return Array.isArray(columns) ? columns : [columns];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Maps one row onto a Product, collecting every problem with it
+ */
+function rowToProduct(
+  { row, values }: FeedRow,
+  mapping: FeedColumnMapping
+): { product: Product | null; errors: FeedRowError[] } {
+  const errors: FeedRowError[] = [];
+
+  const rawId = asText(getValue(values, mapping.product_id));
+  const productId = Number(rawId);
+  if (
+    !/^\d+$/.test(rawId) ||
+    !Number.isSafeInteger(productId) ||
+    productId <= 0
+  ) {
+    errors.push({
+      row,
+      field: "product_id",
+      message: rawId
+        ? `product_id "${rawId}" is not a positive whole number`
+        : `Missing product_id (column "${mapping.product_id}")`,
+    });
+  }
+
+  const name = asText(getValue(values, mapping.name));
+  if (!name) {
+    errors.push({
+      row,
+      field: "name",
+      message: `Missing name (column "${mapping.name}")`,
+    });
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push({
+      row,
+      field: "name",
+      message: `name is longer than ${MAX_NAME_LENGTH} characters`,
+    });
+  }
+
+  // The first description column is the text, the rest are labelled
+  const description = toColumns(mapping.description)
+    .map((column, index) => {
+      const text = asText(getValue(values, column));
+      return text && index > 0 ? `${column}: ${text}` : text;
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  const images = toColumns(mapping.images)
+    .flatMap((column) => {
+      const value = getValue(values, column);
+      return Array.isArray(value)
+        ? value.map(asText)
+        : asText(value).split(/[|,\s]+/);
+    })
+    .filter(Boolean);
+  const invalidImage = images.find((image) => !isHttpUrl(image));
+  if (invalidImage) {
+    errors.push({
+      row,
+      field: "images",
+      message: `"${invalidImage.substring(0, 100)}" is not an http(s) URL`,
+    });
+  }
+
+  let isPublished = true;
+  if (mapping.isPublished) {
+    const rawPublished = asText(
+      getValue(values, mapping.isPublished)
+    ).toLowerCase();
+    if (FALSE_VALUES.includes(rawPublished)) {
+      isPublished = false;
+    } else if (rawPublished && !TRUE_VALUES.includes(rawPublished)) {
+      errors.push({
+        row,
+        field: "isPublished",
+        message: `"${rawPublished}" is not a recognised published value`,
+      });
+    }
+  }
+
+  if (errors.length > 0) return { product: null, errors };
+
+  return {
+    product: {
+      product_id: productId,
+      name,
+      description,
+      images: images.length > 0 ? images : undefined,
+      isPublished,
+    },
+    errors,
+  };
+}
+
+/**
+ * Parses and validates a whole feed. Invalid rows are reported and left
+ * out; the rest can be imported.
+ * Throws FeedFormatError when the feed itself cannot be read.
+ */
+export function parseFeed(
+  text: string,
+  format: FeedFormat,
+  mapping: FeedColumnMapping
+): FeedParseResult {
+  const { rows, errors } = readRows(text, format);
+  const products: Product[] = [];
+  const firstSeen = new Map<number, number>();
+
+  for (const row of rows) {
+    const result = rowToProduct(row, mapping);
+    errors.push(...result.errors);
+    if (!result.product) continue;
+
+    const seenRow = firstSeen.get(result.product.product_id);
+    if (seenRow !== undefined) {
+      errors.push({
+        row: row.row,
+        field: "product_id",
+        message: `Duplicate product_id ${result.product.product_id}, first seen in row ${seenRow}`,
+      });
+      continue;
+    }
+
+    firstSeen.set(result.product.product_id, row.row);
+    products.push(result.product);
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return {
+    format,
+    totalRows: rows.length + errors.filter((error) => !error.field).length,
+    products,
+    errors: errors.slice(0, MAX_REPORTED_ROW_ERRORS),
+    errorCount: errors.length,
+  };
+}
+
+export async function getFeedMapping(
+  appId: number
+): Promise<FeedColumnMapping> {
+  const config = await db.query.pluginConfigFeed.findFirst({
+    where: eq(pluginConfigFeed.appId, appId),
+  });
+  return config?.columnMapping ?? DEFAULT_FEED_MAPPING;
+}
+
+export async function saveFeedMapping(
+  appId: number,
+  columnMapping: FeedColumnMapping
+): Promise<void> {
+  await db
+    .insert(pluginConfigFeed)
+    .values({ appId, columnMapping })
+    .onConflictDoUpdate({
+      target: pluginConfigFeed.appId,
+      set: { columnMapping },
+    });
+}
+
+export async function saveFeedUpload(
+  appId: number,
+  result: FeedParseResult,
+  fileName: string | null
+): Promise<FeedUpload> {
+  const [upload] = await db
+    .insert(feedUploads)
+    .values({
+      appId,
+      format: result.format,
+      fileName,
+      totalRows: result.totalRows,
+      validRows: result.products.length,
+      errorCount: result.errorCount,
+      errors: result.errors,
+      products: result.products,
+    })
+    .returning();
+
+  if (!upload) {
+    throw new Error(`Failed to save feed upload for app ${appId}`);
+  }
+  return upload;
+}
+
+export async function setFeedUploadJob(
+  uploadId: string,
+  jobId: string
+): Promise<void> {
+  await db
+    .update(feedUploads)
+    .set({ jobId })
+    .where(eq(feedUploads.uploadId, uploadId));
+}
+
+export async function deleteFeedUpload(uploadId: string): Promise<void> {
+  await db.delete(feedUploads).where(eq(feedUploads.uploadId, uploadId));
+}
+
+/**
+ * Once an upload has been imported, the products of the app's older uploads
+ * can no longer be replayed. They are dropped to free space, and only their
+ * report is kept. Does nothing for jobs that didn't import an upload.
+ */
+export async function pruneOlderFeedUploads(jobId: string): Promise<void> {
+  const upload = await db.query.feedUploads.findFirst({
+    where: eq(feedUploads.jobId, jobId),
+    columns: { appId: true, dateCreated: true },
+  });
+  if (!upload) return;
+
+  await db
+    .update(feedUploads)
+    .set({ products: [] })
+    .where(
+      and(
+        eq(feedUploads.appId, upload.appId),
+        lt(feedUploads.dateCreated, upload.dateCreated),
+        sql`jsonb_array_length(${feedUploads.products}) > 0`
+      )
+    );
+}
+
+export async function listFeedUploads(
+  appId: number,
+  limit = 20
+): Promise<FeedUploadSummary[]> {
+  return db.query.feedUploads.findMany({
+    where: eq(feedUploads.appId, appId),
+    columns: { products: false },
+    orderBy: desc(feedUploads.dateCreated),
+    limit,
+  });
+}
+
+/**
+ * Products of the app's latest upload, or null if it never uploaded a feed
+ */
+export async function getLatestFeedProducts(
+  appId: number
+): Promise<Product[] | null> {
+  const upload = await db.query.feedUploads.findFirst({
+    where: eq(feedUploads.appId, appId),
+    columns: { products: true },
+    orderBy: desc(feedUploads.dateCreated),
+  });
+  return upload?.products ?? null;
+}
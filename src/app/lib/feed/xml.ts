@@ -0,0 +1,97 @@
+/**
+ * Minimal reader for flat XML product feeds (RSS 2.0 items, Atom entries).
+ * It only understands what those feeds use: elements, attributes, CDATA,
+ * comments and entities, not DTDs or processing instructions.
+ */
+
+// Element name (with prefix, lower-cased) to the text of each occurrence
+export type XmlFields = Record<string, string[]>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity: string, code: string) => {
+      if (code.startsWith("#")) {
+        const codePoint =
+          code[1] === "x" || code[1] === "X"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+/**
+ * Text content of an element body: CDATA is kept verbatim, entities in the
+ * rest are decoded and nested markup is dropped
+ */
+function textContent(body: string): string {
+  return body
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? part.slice(9, -3)
+        : decodeEntities(part.replace(/<[^>]*>/g, " "))
+    )
+    .join("")
+    .trim();
+}
+
+// Strips comments while leaving CDATA sections untouched
+function stripComments(xml: string): string {
+  return xml.replace(
+    /(<!\[CDATA\[[\s\S]*?\]\]>)|<!--[\s\S]*?-->/g,
+    (match, cdata?: string) => cdata ?? ""
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Reads the direct children of every `itemTag` element in the document.
+ * Self-closing children contribute their `href` attribute (Atom links) or
+ * an empty string.
+ */
+export function readXmlItems(xml: string, itemTags: string[]): XmlFields[] {
+  const document = stripComments(xml);
+  const tags = itemTags.map(escapeRegExp).join("|");
+  const itemPattern = new RegExp(
+    `<(${tags})(?:\\s[^>]*)?>([\\s\\S]*?)</\\1\\s*>`,
+    "gi"
+  );
+  const childPattern =
+    /<([\w.:-]+)(\s[^>]*?)?(?:\/>|>((?:<!\[CDATA\[[\s\S]*?\]\]>|[\s\S])*?)<\/\1\s*>)/g;
+
+  const items: XmlFields[] = [];
+  for (const [, , body = ""] of document.matchAll(itemPattern)) {
+    const fields: XmlFields = {};
+    for (const [, name = "", attributes = "", content] of body.matchAll(
+      childPattern
+    )) {
+      const value =
+        content !== undefined
+          ? textContent(content)
+          : decodeEntities(
+              /\bhref\s*=\s*"([^"]*)"/.exec(attributes)?.[1] ?? ""
+            );
+      (fields[name.toLowerCase()] ??= []).push(value);
+    }
+    items.push(fields);
+  }
+  return items;
+}
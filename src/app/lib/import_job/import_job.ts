@@ -0,0 +1,556 @@
+import { db } from "../../../server/db";
+import {
+  importJobs,
+  importJobEvents,
+  importJobPages,
+} from "../../../server/db/schema";
+import { eq, and, asc, desc, gt, inArray, sql } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import type { FetchCheckpoint, Product } from "../conversion/plugin_class";
+
+export type ImportJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "interrupted"
+  | "cancelled";
+
+export type ImportPhase = "fetching" | "describing" | "upserting";
+
+export type ImportTrigger = "manual" | "scheduled";
+
+export interface ProcessingResult {
+  message: string;
+  imported_count: number;
+  status: number;
+}
+
+export interface ImportBatchSummary {
+  batch: number;
+  size: number;
+  described: number;
+  stored: number;
+  failed: number;
+  skipped?: number; // products left untouched because the job was cancelled
+  upsertFailed?: boolean; // nothing was stored, the batch is re-run on resume
+  durationMs: number;
+}
+
+/**
+ * Structured progress events emitted while an import runs.
+ * Persisted per job so any process can stream them to the dashboard.
+ */
+export type ImportProgressEvent =
+  | {
+      type: "batch_started";
+      batch: number;
+      totalBatches: number | null; // null while the catalog is still being fetched
+      size: number;
+    }
+  | { type: "product_described"; batch: number; productId: string }
+  | { type: "cache_hit"; batch: number; productId: string }
+  | {
+      type: "pinecone_batch_upserted";
+      batch: number;
+      pineconeBatch: number;
+      totalPineconeBatches: number;
+      count: number;
+    }
+  | {
+      type: "limit_reached";
+      limit: "products" | "vision";
+      plan: string;
+      max: number;
+    }
+  | {
+      type: "failure";
+      stage: "fetch" | "describe" | "upsert";
+      message: string;
+      batch?: number;
+      productId?: string;
+    };
+
+export type ImportJob = typeof importJobs.$inferSelect;
+
+export type ImportJobEvent = typeof importJobEvents.$inferSelect;
+
+export const TERMINAL_JOB_STATUSES: ImportJobStatus[] = [
+  "completed",
+  "failed",
+  "interrupted",
+  "cancelled",
+];
+
+// Jobs in these states hold the app's single import slot
+export const ACTIVE_JOB_STATUSES: ImportJobStatus[] = ["queued", "running"];
+
+// Jobs in these states can be picked up again from their last checkpoint
+export const RESUMABLE_JOB_STATUSES: ImportJobStatus[] = [
+  "failed",
+  "interrupted",
+];
+
+/**
+ * Thrown by ProductEmbeddingService when a cancel was requested for the running job
+ */
+export class ImportCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Import job ${jobId} was cancelled`);
+    this.name = "ImportCancelledError";
+  }
+}
+
+/**
+ * Thrown when the worker running a job no longer holds it, e.g. after the
+ * reaper re-queued it for another worker. The run stops without recording
+ * anything, the job now belongs to someone else.
+ */
+export class ImportJobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Import job ${jobId} is no longer held by this worker`);
+    this.name = "ImportJobLostError";
+  }
+}
+
+/**
+ * Thrown when an app already has an active import, carrying that job's id
+ */
+export class ImportAlreadyRunningError extends Error {
+  readonly jobId: string;
+
+  constructor(appId: number, jobId: string) {
+    super(`App ${appId} already has an active import job (${jobId})`);
+    this.name = "ImportAlreadyRunningError";
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Where a job left off: pages already fetched and batches already stored
+ */
+export interface ImportCheckpoint extends FetchCheckpoint {
+  completedBatches: number;
+  processedProducts: number;
+  // Batches within completedBatches whose upsert failed, by their last summary
+  failedBatches: Map<number, ImportBatchSummary>;
+}
+
+const JOB_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks that a job id is a well-formed UUID before it reaches Postgres
+ */
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId);
+}
+
+// Postgres error raised when the one-active-job-per-app index is violated
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "23505"
+  );
+}
+
+export async function getActiveImportJob(
+  appId: number
+): Promise<ImportJob | null> {
+  const job = await db.query.importJobs.findFirst({
+    where: and(
+      eq(importJobs.appId, appId),
+      inArray(importJobs.status, ACTIVE_JOB_STATUSES)
+    ),
+  });
+  return job ?? null;
+}
+
+/**
+ * Queues a job for the app, to be claimed by an import worker.
+ * Throws ImportAlreadyRunningError if the app already has an active one.
+ */
+export async function createImportJob(
+  appId: number,
+  trigger: ImportTrigger = "manual"
+): Promise<ImportJob> {
+  // The partial unique index turns a concurrent second insert into a no-op
+  const [job] = await db
+    .insert(importJobs)
+    .values({ appId, status: "queued", trigger })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!job) {
+    const activeJob = await getActiveImportJob(appId);
+    if (activeJob) {
+      throw new ImportAlreadyRunningError(appId, activeJob.jobId);
+    }
+    throw new Error(`Failed to create import job for app ${appId}`);
+  }
+
+  return job;
+}
+
+export async function getImportJob(
+  appId: number,
+  jobId: string
+): Promise<ImportJob | null> {
+  const job = await db.query.importJobs.findFirst({
+    where: and(eq(importJobs.appId, appId), eq(importJobs.jobId, jobId)),
+  });
+  return job ?? null;
+}
+
+export async function listImportJobs(
+  appId: number,
+  limit = 20
+): Promise<ImportJob[]> {
+  return db.query.importJobs.findMany({
+    where: eq(importJobs.appId, appId),
+    orderBy: [desc(importJobs.dateCreated)],
+    limit,
+  });
+}
+
+/**
+ * Re-queues a failed or interrupted job so it can continue from its checkpoint
+ */
+export async function reopenImportJob(
+  appId: number,
+  jobId: string
+): Promise<ImportJob | null> {
+  const activeJob = await getActiveImportJob(appId);
+  if (activeJob) {
+    throw new ImportAlreadyRunningError(appId, activeJob.jobId);
+  }
+
+  const [job] = await db
+    .update(importJobs)
+    .set({
+      status: "queued",
+      error: null,
+      result: null,
+      cancelRequestedAt: null,
+      finishedAt: null,
+      // A resumed job gets a fresh set of retries after lost workers
+      attempts: 0,
+      workerId: null,
+      heartbeatAt: null,
+    })
+    .where(
+      and(
+        eq(importJobs.appId, appId),
+        eq(importJobs.jobId, jobId),
+        inArray(importJobs.status, RESUMABLE_JOB_STATUSES)
+      )
+    )
+    .returning()
+    .catch(async (error: unknown) => {
+      // Another import started between the check and the update
+      const racingJob = isUniqueViolation(error)
+        ? await getActiveImportJob(appId)
+        : null;
+      if (racingJob) {
+        throw new ImportAlreadyRunningError(appId, racingJob.jobId);
+      }
+      throw error;
+    });
+  return job ?? null;
+}
+
+/**
+ * Requests cancellation of a job. A running job is flagged and stops at its
+ * next batch or concurrent group; a queued or stopped job is cancelled outright.
+ */
+export async function cancelImportJob(
+  appId: number,
+  jobId: string
+): Promise<ImportJob | null> {
+  const where = and(eq(importJobs.appId, appId), eq(importJobs.jobId, jobId));
+
+  // Try the not-yet-running states first so a job claimed meanwhile gets flagged below
+  const [stoppedJob] = await db
+    .update(importJobs)
+    .set({
+      status: "cancelled",
+      cancelRequestedAt: new Date(),
+      finishedAt: new Date(),
+    })
+    .where(
+      and(
+        where,
+        inArray(importJobs.status, ["queued", ...RESUMABLE_JOB_STATUSES])
+      )
+    )
+    .returning();
+  if (stoppedJob) {
+    await db.delete(importJobPages).where(eq(importJobPages.jobId, jobId));
+    return stoppedJob;
+  }
+
+  const [runningJob] = await db
+    .update(importJobs)
+    .set({ cancelRequestedAt: new Date() })
+    .where(and(where, eq(importJobs.status, "running")))
+    .returning();
+  return runningJob ?? null;
+}
+
+export async function listImportJobEvents(
+  jobId: string,
+  afterSequence = 0,
+  limit = 500
+): Promise<ImportJobEvent[]> {
+  return db.query.importJobEvents.findMany({
+    where: and(
+      eq(importJobEvents.jobId, jobId),
+      gt(importJobEvents.sequence, afterSequence)
+    ),
+    orderBy: [asc(importJobEvents.sequence)],
+    limit,
+  });
+}
+
+/**
+ * Records the progress of a single import run in the import job table.
+ * Passed into ProductEmbeddingService so the dashboard can poll real progress.
+ * Writes only apply while the worker still holds the job, otherwise they
+ * throw ImportJobLostError.
+ */
+export class ImportJobTracker {
+  readonly jobId: string;
+  private workerId: string;
+  private signal: AbortSignal | undefined;
+
+  /**
+   * signal is aborted by the worker once its heartbeat finds the job taken
+   */
+  constructor(jobId: string, workerId: string, signal?: AbortSignal) {
+    this.jobId = jobId;
+    this.workerId = workerId;
+    this.signal = signal;
+  }
+
+  // Matches the job only while this worker runs it
+  private get heldJob() {
+    return and(
+      eq(importJobs.jobId, this.jobId),
+      eq(importJobs.workerId, this.workerId),
+      eq(importJobs.status, "running")
+    );
+  }
+
+  // Updates the job if this worker still holds it
+  private async updateHeldJob(
+    values: PgUpdateSetSource<typeof importJobs>
+  ): Promise<void> {
+    const jobs = await db
+      .update(importJobs)
+      .set(values)
+      .where(this.heldJob)
+      .returning({ jobId: importJobs.jobId });
+    if (jobs.length === 0) {
+      throw new ImportJobLostError(this.jobId);
+    }
+  }
+
+  /**
+   * Throws ImportJobLostError once the worker has lost hold of this job
+   */
+  throwIfLost(): void {
+    if (this.signal?.aborted) {
+      throw new ImportJobLostError(this.jobId);
+    }
+  }
+
+  /**
+   * Persists a progress event. Never throws: a lost event must not abort the import.
+   */
+  async emit(event: ImportProgressEvent): Promise<void> {
+    // The job's new holder reports its own progress
+    if (this.signal?.aborted) return;
+
+    try {
+      // Parallel batches emit concurrently. Taking the sequence locks the job
+      // row until the event commits, so sequences become visible in order and
+      // a reader resuming after one never skips an earlier event
+      await db.transaction(async (tx) => {
+        const [job] = await tx
+          .update(importJobs)
+          .set({ eventSequence: sql`${importJobs.eventSequence} + 1` })
+          .where(eq(importJobs.jobId, this.jobId))
+          .returning({ sequence: importJobs.eventSequence });
+        if (!job) return;
+
+        await tx.insert(importJobEvents).values({
+          jobId: this.jobId,
+          sequence: job.sequence,
+          type: event.type,
+          data: event,
+        });
+      });
+    } catch (error) {
+      console.error(
+        `[Import Job] Failed to record ${event.type} event for job ${this.jobId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Loads the pages and batch progress saved by earlier runs of this job
+   */
+  async getCheckpoint(): Promise<ImportCheckpoint> {
+    const [job, pages] = await Promise.all([
+      db.query.importJobs.findFirst({
+        where: eq(importJobs.jobId, this.jobId),
+        columns: {
+          completedBatches: true,
+          processedProducts: true,
+          batches: true,
+        },
+      }),
+      db.query.importJobPages.findMany({
+        where: eq(importJobPages.jobId, this.jobId),
+      }),
+    ]);
+
+    // A batch's latest summary tells whether its last run stored it
+    const lastRuns = new Map(
+      (job?.batches ?? []).map((summary) => [summary.batch, summary])
+    );
+
+    return {
+      fetchedPages: new Map(pages.map((page) => [page.page, page.products])),
+      pageSizes: new Map(
+        pages.flatMap((page) =>
+          page.pageSize === null ? [] : [[page.page, page.pageSize] as const]
+        )
+      ),
+      savePage: (page, products, pageSize) =>
+        this.savePage(page, products, pageSize),
+      completedBatches: job?.completedBatches ?? 0,
+      processedProducts: job?.processedProducts ?? 0,
+      failedBatches: new Map(
+        [...lastRuns].filter(([, summary]) => summary.upsertFailed)
+      ),
+    };
+  }
+
+  async savePage(
+    page: number,
+    products: Product[],
+    pageSize?: number
+  ): Promise<void> {
+    await db
+      .insert(importJobPages)
+      .values({ jobId: this.jobId, page, products, pageSize })
+      .onConflictDoUpdate({
+        target: [importJobPages.jobId, importJobPages.page],
+        set: { products, pageSize: pageSize ?? null },
+      });
+  }
+
+  async isCancelRequested(): Promise<boolean> {
+    const job = await db.query.importJobs.findFirst({
+      where: eq(importJobs.jobId, this.jobId),
+      columns: { cancelRequestedAt: true },
+    });
+    return Boolean(job?.cancelRequestedAt);
+  }
+
+  /**
+   * Throws ImportCancelledError if a cancel was requested for this job, or
+   * ImportJobLostError if the worker no longer holds it
+   */
+  async throwIfCancelled(): Promise<void> {
+    this.throwIfLost();
+    if (await this.isCancelRequested()) {
+      throw new ImportCancelledError(this.jobId);
+    }
+  }
+
+  async setPhase(phase: ImportPhase): Promise<void> {
+    await this.updateHeldJob({ phase });
+  }
+
+  /**
+   * Records the products fetched so far. totalBatches stays null until the
+   * catalog has been fully fetched.
+   */
+  async setTotals(
+    totalProducts: number,
+    totalBatches: number | null
+  ): Promise<void> {
+    await this.updateHeldJob({ totalProducts, totalBatches });
+  }
+
+  /**
+   * Adds a batch's outcome to the job. previous is the summary of an earlier
+   * run of the same batch, whose failures the retry replaces.
+   */
+  async recordBatch(
+    summary: ImportBatchSummary,
+    previous?: ImportBatchSummary
+  ): Promise<void> {
+    await this.updateHeldJob({
+      processedProducts: sql`${importJobs.processedProducts} + ${summary.stored}`,
+      failedProducts: sql`${importJobs.failedProducts} + ${summary.failed - (previous?.failed ?? 0)}`,
+      completedBatches: previous
+        ? importJobs.completedBatches
+        : sql`${importJobs.completedBatches} + 1`,
+      batches: sql`${importJobs.batches} || ${JSON.stringify([summary])}::jsonb`,
+    });
+  }
+
+  async complete(result: ProcessingResult): Promise<void> {
+    await this.updateHeldJob({
+      status: result.status === 200 ? "completed" : "failed",
+      phase: null,
+      result,
+      finishedAt: new Date(),
+    });
+
+    // Fetched pages are only kept around for resuming
+    if (result.status === 200) {
+      await db
+        .delete(importJobPages)
+        .where(eq(importJobPages.jobId, this.jobId));
+    }
+  }
+
+  /**
+   * Reports the job as cancelled, keeping the counts of what was already stored
+   */
+  async markCancelled(): Promise<void> {
+    const job = await db.query.importJobs.findFirst({
+      where: eq(importJobs.jobId, this.jobId),
+      columns: { processedProducts: true, totalProducts: true },
+    });
+    const importedCount = job?.processedProducts ?? 0;
+
+    await this.updateHeldJob({
+      status: "cancelled",
+      phase: null,
+      result: {
+        message: `Import cancelled after storing ${importedCount} out of ${job?.totalProducts ?? 0} products`,
+        imported_count: importedCount,
+        status: 200,
+      },
+      finishedAt: new Date(),
+    });
+
+    await db.delete(importJobPages).where(eq(importJobPages.jobId, this.jobId));
+  }
+
+  async fail(error: unknown): Promise<void> {
+    await this.updateHeldJob({
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+      finishedAt: new Date(),
+    });
+  }
+}
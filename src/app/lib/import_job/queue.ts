@@ -0,0 +1,144 @@
+import { db } from "../../../server/db";
+import { apps, importJobs } from "../../../server/db/schema";
+import { eq, and, asc, desc, gte, lt, sql } from "drizzle-orm";
+import { PLANS } from "../plans/plans";
+import type { ImportJob } from "./import_job";
+
+// A running job whose worker has not checked in for this long is presumed dead
+export const STALE_JOB_TIMEOUT_MS = 2 * 60 * 1000;
+
+// How often a worker refreshes the heartbeat of the jobs it holds
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Jobs are re-queued after a dead worker this many times before giving up
+export const MAX_JOB_ATTEMPTS = 3;
+
+// A queued job gains one priority level for every this many seconds it waits
+const PRIORITY_AGING_SECONDS = 10 * 60;
+
+// Plan priority of the job's app, plus aging so free plans are never starved
+const claimPriority = sql`(case lower(${apps.subscriptionPlan}) ${sql.join(
+  Object.values(PLANS).map(
+    (plan) => sql`when ${plan.name} then ${plan.priority}`
+  ),
+  sql` `
+)} else ${PLANS.free.priority} end) + extract(epoch from (now() - ${importJobs.dateCreated})) / ${PRIORITY_AGING_SECONDS}`;
+
+/**
+ * Claims the next queued job for a worker, highest plan priority first with
+ * older jobs catching up over time.
+ * FOR UPDATE SKIP LOCKED lets any number of workers poll without double-claiming.
+ */
+export async function claimNextImportJob(
+  workerId: string
+): Promise<ImportJob | null> {
+  return db.transaction(async (tx) => {
+    const [next] = await tx
+      .select({ jobId: importJobs.jobId })
+      .from(importJobs)
+      .innerJoin(apps, eq(apps.appId, importJobs.appId))
+      .where(eq(importJobs.status, "queued"))
+      .orderBy(desc(claimPriority), asc(importJobs.dateCreated))
+      .limit(1)
+      .for("update", { of: importJobs, skipLocked: true });
+
+    if (!next) return null;
+
+    const [job] = await tx
+      .update(importJobs)
+      .set({
+        status: "running",
+        workerId,
+        attempts: sql`${importJobs.attempts} + 1`,
+        heartbeatAt: new Date(),
+        startedAt: sql`coalesce(${importJobs.startedAt}, now())`,
+      })
+      .where(eq(importJobs.jobId, next.jobId))
+      .returning();
+
+    return job ?? null;
+  });
+}
+
+/**
+ * Refreshes a held job's heartbeat. Returns false if the worker no longer holds it.
+ */
+export async function heartbeatImportJob(
+  jobId: string,
+  workerId: string
+): Promise<boolean> {
+  const jobs = await db
+    .update(importJobs)
+    .set({ heartbeatAt: new Date() })
+    .where(
+      and(
+        eq(importJobs.jobId, jobId),
+        eq(importJobs.workerId, workerId),
+        eq(importJobs.status, "running")
+      )
+    )
+    .returning({ jobId: importJobs.jobId });
+  return jobs.length > 0;
+}
+
+/**
+ * Hands a job back to the queue when its worker shuts down gracefully.
+ * The claim is not counted as an attempt.
+ */
+export async function releaseImportJob(
+  jobId: string,
+  workerId: string
+): Promise<void> {
+  await db
+    .update(importJobs)
+    .set({
+      status: "queued",
+      workerId: null,
+      heartbeatAt: null,
+      attempts: sql`greatest(${importJobs.attempts} - 1, 0)`,
+    })
+    .where(
+      and(
+        eq(importJobs.jobId, jobId),
+        eq(importJobs.workerId, workerId),
+        eq(importJobs.status, "running")
+      )
+    );
+}
+
+/**
+ * Re-queues running jobs whose worker stopped heartbeating, so another worker
+ * resumes them from their checkpoint. Jobs that keep losing their worker are
+ * marked interrupted instead and have to be resumed by hand.
+ */
+export async function requeueStaleImportJobs(): Promise<{
+  requeued: string[];
+  interrupted: string[];
+}> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_TIMEOUT_MS);
+  const isStale = and(
+    eq(importJobs.status, "running"),
+    lt(importJobs.heartbeatAt, staleBefore)
+  );
+
+  const requeued = await db
+    .update(importJobs)
+    .set({ status: "queued", workerId: null, heartbeatAt: null })
+    .where(and(isStale, lt(importJobs.attempts, MAX_JOB_ATTEMPTS)))
+    .returning({ jobId: importJobs.jobId });
+
+  const interrupted = await db
+    .update(importJobs)
+    .set({
+      status: "interrupted",
+      error: `Worker stopped responding ${MAX_JOB_ATTEMPTS} times`,
+      finishedAt: new Date(),
+    })
+    .where(and(isStale, gte(importJobs.attempts, MAX_JOB_ATTEMPTS)))
+    .returning({ jobId: importJobs.jobId });
+
+  return {
+    requeued: requeued.map((job) => job.jobId),
+    interrupted: interrupted.map((job) => job.jobId),
+  };
+}
@@ -0,0 +1,87 @@
+import { ProductEmbeddingService } from "../embedding/embed_products";
+import {
+  ImportCancelledError,
+  ImportJobLostError,
+  ImportJobTracker,
+} from "./import_job";
+import { enqueueJobCallbacks } from "../callbacks/callbacks";
+import { pruneOlderFeedUploads } from "../feed/feed";
+
+// Queues completion callbacks, a failure here must not affect the job
+export async function notifyJobCallbacks(jobId: string): Promise<void> {
+  await enqueueJobCallbacks(jobId).catch((error) => {
+    console.error(
+      `[Background Import] Failed to queue callbacks for job ${jobId}:`,
+      error
+    );
+  });
+}
+
+/**
+ * Runs (or resumes) an import job to completion and records its outcome.
+ * Never throws, so callers can fire and forget it. Aborting signal stops
+ * the run at its next batch without recording anything.
+ */
+export async function runImportJob(
+  appId: number,
+  jobId: string,
+  workerId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const tracker = new ImportJobTracker(jobId, workerId, signal);
+
+  try {
+    console.log(`[Background Import] Starting job ${jobId} for app ${appId}`);
+    const embeddingService = new ProductEmbeddingService();
+    const result = await embeddingService.processAndStoreProducts(
+      appId,
+      tracker
+    );
+    await tracker.complete(result);
+    await notifyJobCallbacks(jobId);
+    await pruneOlderFeedUploads(jobId).catch((error) => {
+      console.error(
+        `[Background Import] Failed to prune feed uploads after job ${jobId}:`,
+        error
+      );
+    });
+    console.log(
+      `[Background Import] Completed job ${jobId} for app ${appId}:`,
+      result.message
+    );
+  } catch (error) {
+    if (error instanceof ImportJobLostError) {
+      console.warn(
+        `[Background Import] Stopped job ${jobId} for app ${appId}: ${error.message}`
+      );
+      return;
+    }
+
+    if (error instanceof ImportCancelledError) {
+      console.log(
+        `[Background Import] Cancelled job ${jobId} for app ${appId}`
+      );
+      await tracker.markCancelled().catch((trackerError) => {
+        console.error(
+          `[Background Import] Failed to record cancellation for job ${jobId}:`,
+          trackerError
+        );
+      });
+      return;
+    }
+
+    console.error(
+      `[Background Import] Failed job ${jobId} for app ${appId}:`,
+      error
+    );
+    await tracker
+      .fail(error)
+      .then(() => notifyJobCallbacks(jobId))
+      .catch((trackerError) => {
+        console.error(
+          `[Background Import] Failed to record failure for job ${jobId}:`,
+          trackerError
+        );
+      });
+  }
+}
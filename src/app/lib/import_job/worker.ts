@@ -0,0 +1,273 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { notifyJobCallbacks, runImportJob } from "./run_import_job";
+import {
+  claimNextImportJob,
+  heartbeatImportJob,
+  releaseImportJob,
+  requeueStaleImportJobs,
+  HEARTBEAT_INTERVAL_MS,
+} from "./queue";
+import type { ImportJob } from "./import_job";
+import { enqueueDueSyncs } from "../scheduler/sync_scheduler";
+import { deliverDueCallbacks } from "../callbacks/delivery";
+import {
+  processDueWebhookEvents,
+  requeueStaleWebhookEvents,
+} from "../webhooks/debounce";
+
+export interface ImportWorkerOptions {
+  concurrency?: number; // jobs run side by side in this process
+  pollIntervalMs?: number; // wait between claims when the queue is empty
+  reapIntervalMs?: number; // how often stale jobs and webhook claims are re-queued
+  syncIntervalMs?: number; // how often due scheduled re-syncs are queued
+  callbackIntervalMs?: number; // how often due completion callbacks are sent
+  webhookIntervalMs?: number; // how often settled webhook events are applied
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Long-running import worker. Claims queued jobs from Postgres, heartbeats
+ * while they run and re-queues jobs whose worker died.
+ */
+export class ImportWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  private concurrency: number;
+  private pollIntervalMs: number;
+  private reapIntervalMs: number;
+  private syncIntervalMs: number;
+  private callbackIntervalMs: number;
+  private webhookIntervalMs: number;
+  private activeJobs = new Map<
+    string,
+    { run: Promise<void>; controller: AbortController }
+  >();
+  private stopping = false;
+  private deliveringCallbacks = false;
+  private applyingWebhookEvents = false;
+
+  constructor(options: ImportWorkerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.reapIntervalMs = options.reapIntervalMs ?? 30000;
+    this.syncIntervalMs = options.syncIntervalMs ?? 60000;
+    this.callbackIntervalMs = options.callbackIntervalMs ?? 5000;
+    this.webhookIntervalMs = options.webhookIntervalMs ?? 2000;
+  }
+
+  async start(): Promise<void> {
+    console.log(
+      `[Worker ${this.workerId}] Started with concurrency ${this.concurrency}`
+    );
+
+    const reaper = setInterval(() => {
+      void this.reapStaleJobs();
+      void this.reapStaleWebhookEvents();
+    }, this.reapIntervalMs);
+    await this.reapStaleJobs();
+    await this.reapStaleWebhookEvents();
+    const syncer = setInterval(
+      () => void this.enqueueScheduledSyncs(),
+      this.syncIntervalMs
+    );
+    await this.enqueueScheduledSyncs();
+    const deliverer = setInterval(
+      () => void this.deliverCallbacks(),
+      this.callbackIntervalMs
+    );
+    const webhookProcessor = setInterval(
+      () => void this.applyWebhookEvents(),
+      this.webhookIntervalMs
+    );
+
+    try {
+      while (!this.stopping) {
+        if (this.activeJobs.size < this.concurrency) {
+          const job = await claimNextImportJob(this.workerId).catch(
+            (error: unknown) => {
+              console.error(
+                `[Worker ${this.workerId}] Failed to claim job:`,
+                error
+              );
+              return null;
+            }
+          );
+
+          if (job) {
+            this.runJob(job);
+            continue;
+          }
+        }
+
+        await sleep(this.pollIntervalMs);
+      }
+    } finally {
+      clearInterval(reaper);
+      clearInterval(syncer);
+      clearInterval(deliverer);
+      clearInterval(webhookProcessor);
+    }
+  }
+
+  /**
+   * Stops claiming and hands running jobs back to the queue so another
+   * worker resumes them from their checkpoint.
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+
+    await Promise.all(
+      [...this.activeJobs].map(async ([jobId, { controller }]) => {
+        console.log(`[Worker ${this.workerId}] Releasing job ${jobId}`);
+        await releaseImportJob(jobId, this.workerId).catch((error) => {
+          console.error(
+            `[Worker ${this.workerId}] Failed to release job ${jobId}:`,
+            error
+          );
+        });
+        controller.abort();
+      })
+    );
+  }
+
+  private runJob(job: ImportJob): void {
+    console.log(
+      `[Worker ${this.workerId}] Claimed job ${job.jobId} for app ${job.appId} (attempt ${job.attempts})`
+    );
+
+    // Aborted once the job is no longer ours, e.g. re-queued as stale
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => {
+      heartbeatImportJob(job.jobId, this.workerId)
+        .then((held) => {
+          if (!held) {
+            console.warn(
+              `[Worker ${this.workerId}] Lost hold of job ${job.jobId}, stopping it`
+            );
+            clearInterval(heartbeat);
+            controller.abort();
+          }
+        })
+        .catch((error) => {
+          console.error(
+            `[Worker ${this.workerId}] Heartbeat failed for job ${job.jobId}:`,
+            error
+          );
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const run = runImportJob(
+      job.appId,
+      job.jobId,
+      this.workerId,
+      controller.signal
+    ).finally(() => {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(job.jobId);
+    });
+    this.activeJobs.set(job.jobId, { run, controller });
+  }
+
+  private async reapStaleJobs(): Promise<void> {
+    try {
+      const { requeued, interrupted } = await requeueStaleImportJobs();
+      if (requeued.length > 0) {
+        console.log(
+          `[Worker ${this.workerId}] Re-queued stale jobs: ${requeued.join(", ")}`
+        );
+      }
+      if (interrupted.length > 0) {
+        console.warn(
+          `[Worker ${this.workerId}] Gave up on stale jobs: ${interrupted.join(", ")}`
+        );
+        await Promise.all(interrupted.map(notifyJobCallbacks));
+      }
+    } catch (error) {
+      console.error(
+        `[Worker ${this.workerId}] Failed to re-queue stale jobs:`,
+        error
+      );
+    }
+  }
+
+  private async reapStaleWebhookEvents(): Promise<void> {
+    try {
+      const requeued = await requeueStaleWebhookEvents();
+      if (requeued > 0) {
+        console.warn(
+          `[Worker ${this.workerId}] Re-queued ${requeued} abandoned webhook events`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[Worker ${this.workerId}] Failed to re-queue abandoned webhook events:`,
+        error
+      );
+    }
+  }
+
+  private async enqueueScheduledSyncs(): Promise<void> {
+    try {
+      const { queued, skipped } = await enqueueDueSyncs();
+      if (queued > 0 || skipped > 0) {
+        console.log(
+          `[Worker ${this.workerId}] Scheduled re-syncs: ${queued} queued, ${skipped} skipped`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[Worker ${this.workerId}] Failed to queue scheduled re-syncs:`,
+        error
+      );
+    }
+  }
+
+  private async deliverCallbacks(): Promise<void> {
+    // A slow endpoint can outlast the interval, never run two passes at once
+    if (this.deliveringCallbacks) return;
+    this.deliveringCallbacks = true;
+
+    try {
+      const { delivered, retrying, failed } = await deliverDueCallbacks();
+      if (delivered > 0 || retrying > 0 || failed > 0) {
+        console.log(
+          `[Worker ${this.workerId}] Callbacks: ${delivered} delivered, ${retrying} retrying, ${failed} given up`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[Worker ${this.workerId}] Failed to deliver callbacks:`,
+        error
+      );
+    } finally {
+      this.deliveringCallbacks = false;
+    }
+  }
+
+  private async applyWebhookEvents(): Promise<void> {
+    if (this.applyingWebhookEvents) return;
+    this.applyingWebhookEvents = true;
+
+    try {
+      const { applied, superseded } = await processDueWebhookEvents(
+        this.workerId
+      );
+      if (applied > 0 || superseded > 0) {
+        console.log(
+          `[Worker ${this.workerId}] Webhook events: ${applied} applied, ${superseded} coalesced`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `[Worker ${this.workerId}] Failed to apply webhook events:`,
+        error
+      );
+    } finally {
+      this.applyingWebhookEvents = false;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import type { PlanLimitError } from "./plans";
+
+/**
+ * Answers a request refused by the app's plan or billing status, with
+ * Retry-After when the plan allows it again later
+ */
+export function planLimitResponse(error: PlanLimitError): NextResponse {
+  const response = NextResponse.json(
+    {
+      error:
+        error.status === 402
+          ? "Billing inactive"
+          : "Subscription plan limit reached",
+      code: error.code,
+      message: error.message,
+      ...(error.retryAfterSeconds !== undefined && {
+        retryAfterSeconds: error.retryAfterSeconds,
+      }),
+    },
+    { status: error.status }
+  );
+  if (error.retryAfterSeconds !== undefined) {
+    response.headers.set("Retry-After", String(error.retryAfterSeconds));
+  }
+  return response;
+}
@@ -0,0 +1,164 @@
+import { db } from "../../../server/db";
+import { apps, importJobs } from "../../../server/db/schema";
+import { eq, and, desc } from "drizzle-orm";
+
+export interface PlanConfig {
+  name: string;
+  visionConcurrency: number; // vision calls an app may have in flight at once
+  pineconeConcurrency: number; // Pinecone upserts an app may have in flight at once
+  priority: number; // share of scheduling turns relative to other plans
+  maxIndexedProducts: number | null; // null means unlimited
+  monthlyVisionDescriptions: number | null; // null means unlimited
+  minImportIntervalMinutes: number; // minimum time between completed imports
+  defaultSyncIntervalMinutes: number; // automatic re-sync cadence unless the app sets its own
+}
+
+type App = typeof apps.$inferSelect;
+
+// Billing statuses that may run imports and vision calls
+export const BILLABLE_STATUSES = ["active", "trialing"];
+
+/**
+ * Thrown when an app's plan or billing status does not allow an operation.
+ * `status` is the HTTP status routes should answer with.
+ */
+export class PlanLimitError extends Error {
+  readonly status: 402 | 403;
+  readonly code: "billing_inactive" | "import_too_frequent" | "product_limit";
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    status: 402 | 403,
+    code: PlanLimitError["code"],
+    message: string,
+    retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "PlanLimitError";
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const PLANS: Record<string, PlanConfig> = {
+  free: {
+    name: "free",
+    visionConcurrency: 3,
+    pineconeConcurrency: 1,
+    priority: 1,
+    maxIndexedProducts: 500,
+    monthlyVisionDescriptions: 500,
+    minImportIntervalMinutes: 24 * 60,
+    defaultSyncIntervalMinutes: 7 * 24 * 60,
+  },
+  starter: {
+    name: "starter",
+    visionConcurrency: 5,
+    pineconeConcurrency: 2,
+    priority: 2,
+    maxIndexedProducts: 5000,
+    monthlyVisionDescriptions: 5000,
+    minImportIntervalMinutes: 60,
+    defaultSyncIntervalMinutes: 24 * 60,
+  },
+  pro: {
+    name: "pro",
+    visionConcurrency: 10,
+    pineconeConcurrency: 3,
+    priority: 3,
+    maxIndexedProducts: 50000,
+    monthlyVisionDescriptions: 50000,
+    minImportIntervalMinutes: 15,
+    defaultSyncIntervalMinutes: 6 * 60,
+  },
+  enterprise: {
+    name: "enterprise",
+    visionConcurrency: 20,
+    pineconeConcurrency: 4,
+    priority: 4,
+    maxIndexedProducts: null,
+    monthlyVisionDescriptions: null,
+    minImportIntervalMinutes: 5,
+    defaultSyncIntervalMinutes: 60,
+  },
+};
+
+/**
+ * Resolves a subscription plan name, falling back to the free plan for unknown names
+ */
+export function getPlan(planName: string | null | undefined): PlanConfig {
+  const plan = planName ? PLANS[planName.toLowerCase()] : undefined;
+  return plan ?? PLANS.free;
+}
+
+/**
+ * Throws a 402 PlanLimitError unless the app's billing status allows paid work
+ */
+export function assertBillingActive(app: Pick<App, "appId" | "billingStatus">) {
+  if (!BILLABLE_STATUSES.includes(app.billingStatus.toLowerCase())) {
+    throw new PlanLimitError(
+      402,
+      "billing_inactive",
+      `Billing status for app ${app.appId} is "${app.billingStatus}". Imports are only available while billing is active.`
+    );
+  }
+}
+
+/**
+ * Loads the app and throws a 402 PlanLimitError unless its billing is active
+ */
+export async function assertAppBillingActive(appId: number): Promise<void> {
+  const [app] = await db
+    .select({ appId: apps.appId, billingStatus: apps.billingStatus })
+    .from(apps)
+    .where(eq(apps.appId, appId))
+    .limit(1);
+
+  if (!app) {
+    throw new Error(`App ${appId} not found`);
+  }
+  assertBillingActive(app);
+}
+
+/**
+ * Checks billing status and the plan's import frequency before a new import.
+ * Throws PlanLimitError (402 for billing, 403 for plan limits).
+ */
+export async function assertCanStartImport(app: App): Promise<void> {
+  assertBillingActive(app);
+
+  const plan = getPlan(app.subscriptionPlan);
+  const [lastImport] = await db
+    .select({ dateCreated: importJobs.dateCreated })
+    .from(importJobs)
+    .where(
+      and(eq(importJobs.appId, app.appId), eq(importJobs.status, "completed"))
+    )
+    .orderBy(desc(importJobs.dateCreated))
+    .limit(1);
+
+  if (lastImport) {
+    const nextAllowedAt =
+      lastImport.dateCreated.getTime() +
+      plan.minImportIntervalMinutes * 60 * 1000;
+    if (nextAllowedAt > Date.now()) {
+      throw new PlanLimitError(
+        403,
+        "import_too_frequent",
+        `The ${plan.name} plan allows one import every ${plan.minImportIntervalMinutes} minutes.`,
+        Math.ceil((nextAllowedAt - Date.now()) / 1000)
+      );
+    }
+  }
+}
+
+export async function getAppPlan(appId: number): Promise<PlanConfig> {
+  const [app] = await db
+    .select({ subscriptionPlan: apps.subscriptionPlan })
+    .from(apps)
+    .where(eq(apps.appId, appId))
+    .limit(1);
+
+  return getPlan(app?.subscriptionPlan);
+}
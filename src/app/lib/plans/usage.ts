@@ -0,0 +1,50 @@
+import { db } from "../../../server/db";
+import { appUsage } from "../../../server/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import type { PlanConfig } from "./plans";
+
+// Usage is metered per calendar month in UTC, e.g. "2025-07"
+function currentPeriod(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/**
+ * Counts one vision description against the app's monthly allowance.
+ * Returns false, without counting, once the plan's allowance is used up.
+ */
+export async function consumeVisionDescription(
+  appId: number,
+  plan: PlanConfig
+): Promise<boolean> {
+  const limit = plan.monthlyVisionDescriptions;
+
+  // The conditional upsert keeps concurrent calls from overshooting the limit
+  const rows = await db
+    .insert(appUsage)
+    .values({ appId, period: currentPeriod(), visionDescriptions: 1 })
+    .onConflictDoUpdate({
+      target: [appUsage.appId, appUsage.period],
+      set: { visionDescriptions: sql`${appUsage.visionDescriptions} + 1` },
+      ...(limit !== null && {
+        setWhere: sql`${appUsage.visionDescriptions} < ${limit}`,
+      }),
+    })
+    .returning({ visionDescriptions: appUsage.visionDescriptions });
+
+  return rows.length > 0;
+}
+
+/**
+ * Gives back a unit counted by consumeVisionDescription when the vision call
+ * failed or returned nothing
+ */
+export async function refundVisionDescription(appId: number): Promise<void> {
+  await db
+    .update(appUsage)
+    .set({
+      visionDescriptions: sql`greatest(${appUsage.visionDescriptions} - 1, 0)`,
+    })
+    .where(
+      and(eq(appUsage.appId, appId), eq(appUsage.period, currentPeriod()))
+    );
+}
@@ -0,0 +1,168 @@
+import { lookup as dnsLookup } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Agent } from "undici";
+
+// Local development may talk to http://localhost
+export const allowPrivateTargets = process.env.NODE_ENV === "development";
+
+// Loopback, link-local, private and reserved ranges requests may not target
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Thrown when a request would reach a loopback, link-local or private address
+ */
+export class PrivateAddressError extends Error {
+  constructor(
+    public readonly hostname: string,
+    public readonly address: string
+  ) {
+    super(
+      hostname === address
+        ? `${address} is a private address`
+        : `${hostname} resolves to the private address ${address}`
+    );
+    this.name = "PrivateAddressError";
+  }
+}
+
+// The IPv4 address inside an IPv4-mapped IPv6 one, e.g. ::ffff:10.0.0.1
+function unmapIPv4(address: string): string | null {
+  // URL normalises every spelling to ::ffff:a00:1
+  const match = /^\[::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})\]$/.exec(
+    new URL(`http://[${address}]`).hostname
+  );
+  if (!match) return null;
+
+  const [high, low] = [parseInt(match[1], 16), parseInt(match[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  if (family === 4) return privateAddresses.check(address, "ipv4");
+
+  // Mapped addresses are checked by the IPv4 rules
+  const mapped = unmapIPv4(address);
+  return mapped
+    ? privateAddresses.check(mapped, "ipv4")
+    : privateAddresses.check(address, "ipv6");
+}
+
+// URL keeps the brackets around IPv6 hosts
+export function getHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+/**
+ * DNS lookup for outgoing connections that refuses private addresses. The
+ * connection is made to the address checked here, so a host can't resolve
+ * to a public address for a check and a private one for the request.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(new PrivateAddressError(hostname, blocked.address), "");
+      return;
+    }
+
+    const [first] = addresses;
+    if (!first) {
+      const notFound: NodeJS.ErrnoException = new Error(
+        `getaddrinfo ENOTFOUND ${hostname}`
+      );
+      notFound.code = "ENOTFOUND";
+      callback(notFound, "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Resolves the URL's host and checks that none of its addresses is private.
+ * For validating URLs up front; requests go through fetchPublic.
+ */
+export async function resolvesToPublicAddress(url: string): Promise<boolean> {
+  if (allowPrivateTargets) return true;
+
+  let hostname: string;
+  try {
+    hostname = getHostname(new URL(url));
+  } catch {
+    return false;
+  }
+  if (isIP(hostname)) return !isPrivateAddress(hostname);
+
+  return new Promise((resolve) => {
+    publicLookup(hostname, { all: true }, (error) => resolve(!error));
+  });
+}
+
+/**
+ * fetch for URLs supplied by merchants or apps, which must not reach
+ * internal services. Private IP literals are refused, host names are
+ * resolved once and connected to the checked address, and redirects are
+ * returned instead of followed.
+ */
+export async function fetchPublic(
+  url: string | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  if (allowPrivateTargets) {
+    return fetch(url, { ...init, redirect: "manual" });
+  }
+
+  const hostname = getHostname(new URL(url));
+  if (isPrivateAddress(hostname)) {
+    throw new PrivateAddressError(hostname, hostname);
+  }
+
+  try {
+    // Node's fetch takes an undici dispatcher, which RequestInit doesn't type
+    return await fetch(url, {
+      ...init,
+      redirect: "manual",
+      dispatcher: publicAgent,
+    } as RequestInit);
+  } catch (error) {
+    // fetch hides the refused lookup behind "fetch failed"
+    if (error instanceof Error && error.cause instanceof PrivateAddressError) {
+      throw error.cause;
+    }
+    throw error;
+  }
+}
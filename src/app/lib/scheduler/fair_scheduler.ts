@@ -0,0 +1,184 @@
+import type { PlanConfig } from "../plans/plans";
+
+export type ResourceKind = "vision" | "pinecone";
+
+interface Waiter {
+  resolve: () => void;
+}
+
+interface AppState {
+  plan: PlanConfig;
+  inFlight: Record<ResourceKind, number>;
+  waiting: Record<ResourceKind, Waiter[]>;
+  credits: Record<ResourceKind, number>; // turns left in the current round
+}
+
+function readCapacity(envValue: string | undefined, fallback: number): number {
+  const parsed = parseInt(envValue ?? "");
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+/**
+ * Shares this process's vision and Pinecone capacity between apps.
+ *
+ * Each app is capped by its plan's concurrency, and free slots are handed out
+ * by weighted round-robin over apps with pending work: every round an app gets
+ * as many turns as its plan priority, so paid plans move faster while one
+ * large import can no longer starve everyone else.
+ *
+ * Plan concurrency is a total across all workers. Processes don't talk to
+ * each other, so each one enforces its share: the plan limit divided by the
+ * number of workers, rounded up.
+ */
+export class FairScheduler {
+  private capacity: Record<ResourceKind, number>;
+  private workerCount: number;
+  private inFlight: Record<ResourceKind, number> = { vision: 0, pinecone: 0 };
+  private apps = new Map<number, AppState>();
+  private rotation: Record<ResourceKind, number[]> = {
+    vision: [],
+    pinecone: [],
+  };
+
+  constructor(capacity: Record<ResourceKind, number>, workerCount = 1) {
+    this.capacity = capacity;
+    this.workerCount = workerCount;
+  }
+
+  /**
+   * Runs fn once the app has been granted a slot of the given kind
+   */
+  async run<T>(
+    kind: ResourceKind,
+    appId: number,
+    plan: PlanConfig,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    await this.acquire(kind, appId, plan);
+    try {
+      return await fn();
+    } finally {
+      this.release(kind, appId);
+    }
+  }
+
+  private acquire(
+    kind: ResourceKind,
+    appId: number,
+    plan: PlanConfig
+  ): Promise<void> {
+    const state = this.getAppState(appId, plan);
+
+    return new Promise((resolve) => {
+      state.waiting[kind].push({ resolve });
+      if (!this.rotation[kind].includes(appId)) {
+        this.rotation[kind].push(appId);
+      }
+      this.dispatch(kind);
+    });
+  }
+
+  private release(kind: ResourceKind, appId: number): void {
+    const state = this.apps.get(appId);
+    if (state) {
+      state.inFlight[kind]--;
+    }
+    this.inFlight[kind]--;
+    this.dispatch(kind);
+    this.forgetIdleApp(appId);
+  }
+
+  private dispatch(kind: ResourceKind): void {
+    while (this.inFlight[kind] < this.capacity[kind]) {
+      const appId = this.nextEligibleApp(kind);
+      if (appId === undefined) return;
+
+      const state = this.apps.get(appId)!;
+      const waiter = state.waiting[kind].shift()!;
+      state.credits[kind]--;
+      state.inFlight[kind]++;
+      this.inFlight[kind]++;
+
+      // Move the app to the back of the rotation once its turns are used up
+      const rotation = this.rotation[kind];
+      rotation.splice(rotation.indexOf(appId), 1);
+      if (state.waiting[kind].length > 0) {
+        if (state.credits[kind] > 0) {
+          rotation.unshift(appId);
+        } else {
+          rotation.push(appId);
+        }
+      }
+
+      waiter.resolve();
+    }
+  }
+
+  private nextEligibleApp(kind: ResourceKind): number | undefined {
+    const eligible = this.rotation[kind].filter((appId) => {
+      const state = this.apps.get(appId)!;
+      return (
+        state.waiting[kind].length > 0 &&
+        state.inFlight[kind] < this.planLimit(kind, state.plan)
+      );
+    });
+    if (eligible.length === 0) return undefined;
+
+    // Start a new round when every eligible app has used its turns
+    const withCredits = eligible.find(
+      (appId) => this.apps.get(appId)!.credits[kind] > 0
+    );
+    if (withCredits !== undefined) return withCredits;
+
+    for (const appId of eligible) {
+      const state = this.apps.get(appId)!;
+      state.credits[kind] = state.plan.priority;
+    }
+    return eligible[0];
+  }
+
+  private planLimit(kind: ResourceKind, plan: PlanConfig): number {
+    const limit =
+      kind === "vision" ? plan.visionConcurrency : plan.pineconeConcurrency;
+    return Math.ceil(limit / this.workerCount);
+  }
+
+  private getAppState(appId: number, plan: PlanConfig): AppState {
+    let state = this.apps.get(appId);
+    if (!state) {
+      state = {
+        plan,
+        inFlight: { vision: 0, pinecone: 0 },
+        waiting: { vision: [], pinecone: [] },
+        credits: { vision: plan.priority, pinecone: plan.priority },
+      };
+      this.apps.set(appId, state);
+    }
+    // Pick up plan changes between calls
+    state.plan = plan;
+    return state;
+  }
+
+  private forgetIdleApp(appId: number): void {
+    const state = this.apps.get(appId);
+    if (
+      state &&
+      state.inFlight.vision === 0 &&
+      state.inFlight.pinecone === 0 &&
+      state.waiting.vision.length === 0 &&
+      state.waiting.pinecone.length === 0
+    ) {
+      this.apps.delete(appId);
+    }
+  }
+}
+
+// Create a singleton instance shared by every import running in this process
+const scheduler = new FairScheduler(
+  {
+    vision: readCapacity(process.env.VISION_CONCURRENCY, 20),
+    pinecone: readCapacity(process.env.PINECONE_CONCURRENCY, 4),
+  },
+  readCapacity(process.env.IMPORT_WORKER_COUNT, 1)
+);
+export default scheduler;
@@ -0,0 +1,231 @@
+import { db } from "../../../server/db";
+import { apps, importSchedules } from "../../../server/db/schema";
+import { eq, and, lte, isNull, notInArray } from "drizzle-orm";
+import { BILLABLE_STATUSES, getPlan, type PlanConfig } from "../plans/plans";
+import {
+  createImportJob,
+  ImportAlreadyRunningError,
+} from "../import_job/import_job";
+import { getMissingConfiguration } from "../conversion/missing_configuration";
+
+export type ImportSchedule = typeof importSchedules.$inferSelect;
+
+export interface ImportScheduleSettings {
+  enabled?: boolean;
+  intervalMinutes?: number | null; // null restores the plan default
+}
+
+// Due schedules handled per pass, the rest wait for the next pass
+const DUE_SCHEDULES_PER_PASS = 50;
+
+/**
+ * Cadence actually used for an app: its own interval or the plan default,
+ * never more often than the plan allows imports
+ */
+export function effectiveIntervalMinutes(
+  intervalMinutes: number | null | undefined,
+  plan: PlanConfig
+): number {
+  return Math.max(
+    intervalMinutes ?? plan.defaultSyncIntervalMinutes,
+    plan.minImportIntervalMinutes
+  );
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+export async function getImportSchedule(
+  appId: number
+): Promise<ImportSchedule | null> {
+  const schedule = await db.query.importSchedules.findFirst({
+    where: eq(importSchedules.appId, appId),
+  });
+  return schedule ?? null;
+}
+
+/**
+ * Creates or updates an app's schedule and moves its next run to match
+ */
+export async function updateImportSchedule(
+  appId: number,
+  plan: PlanConfig,
+  settings: ImportScheduleSettings
+): Promise<ImportSchedule> {
+  const existing = await getImportSchedule(appId);
+  const intervalMinutes =
+    settings.intervalMinutes !== undefined
+      ? settings.intervalMinutes
+      : (existing?.intervalMinutes ?? null);
+  const enabled = settings.enabled ?? existing?.enabled ?? true;
+  const nextRunAt = addMinutes(
+    existing?.lastRunAt ?? new Date(),
+    effectiveIntervalMinutes(intervalMinutes, plan)
+  );
+
+  const [schedule] = await db
+    .insert(importSchedules)
+    .values({ appId, enabled, intervalMinutes, nextRunAt })
+    .onConflictDoUpdate({
+      target: importSchedules.appId,
+      set: { enabled, intervalMinutes, nextRunAt },
+    })
+    .returning();
+
+  if (!schedule) {
+    throw new Error(`Failed to update import schedule for app ${appId}`);
+  }
+  return schedule;
+}
+
+// Plugins with nothing to pull from on a schedule
+const UNSCHEDULED_PLUGINS = ["unknown", "feed"];
+
+/**
+ * Gives every app without a schedule one on its plan's default cadence,
+ * starting one interval from now. Apps whose plugin isn't configured yet are
+ * skipped when their schedule comes due.
+ */
+async function ensureSchedules(): Promise<void> {
+  const unscheduledApps = await db
+    .select({ appId: apps.appId, subscriptionPlan: apps.subscriptionPlan })
+    .from(apps)
+    .leftJoin(importSchedules, eq(importSchedules.appId, apps.appId))
+    .where(
+      and(
+        isNull(importSchedules.appId),
+        notInArray(apps.pluginName, UNSCHEDULED_PLUGINS)
+      )
+    );
+
+  if (unscheduledApps.length === 0) return;
+
+  await db
+    .insert(importSchedules)
+    .values(
+      unscheduledApps.map((app) => ({
+        appId: app.appId,
+        nextRunAt: addMinutes(
+          new Date(),
+          effectiveIntervalMinutes(null, getPlan(app.subscriptionPlan))
+        ),
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/**
+ * Queues a re-sync for every app whose schedule is due. Safe to run from
+ * several workers at once: each due schedule is claimed by moving its next
+ * run forward, which only one worker can do.
+ */
+export async function enqueueDueSyncs(): Promise<{
+  queued: number;
+  skipped: number;
+}> {
+  await ensureSchedules();
+
+  const now = new Date();
+  const dueSchedules = await db
+    .select({
+      schedule: importSchedules,
+      subscriptionPlan: apps.subscriptionPlan,
+      billingStatus: apps.billingStatus,
+      pluginName: apps.pluginName,
+    })
+    .from(importSchedules)
+    .innerJoin(apps, eq(apps.appId, importSchedules.appId))
+    .where(
+      and(
+        eq(importSchedules.enabled, true),
+        lte(importSchedules.nextRunAt, now)
+      )
+    )
+    .orderBy(importSchedules.nextRunAt)
+    .limit(DUE_SCHEDULES_PER_PASS);
+
+  let queued = 0;
+  let skipped = 0;
+
+  for (const {
+    schedule,
+    subscriptionPlan,
+    billingStatus,
+    pluginName,
+  } of dueSchedules) {
+    const plan = getPlan(subscriptionPlan);
+    const nextRunAt = addMinutes(
+      now,
+      effectiveIntervalMinutes(schedule.intervalMinutes, plan)
+    );
+
+    const [claimed] = await db
+      .update(importSchedules)
+      .set({ nextRunAt })
+      .where(
+        and(
+          eq(importSchedules.appId, schedule.appId),
+          eq(importSchedules.nextRunAt, schedule.nextRunAt)
+        )
+      )
+      .returning({ appId: importSchedules.appId });
+    if (!claimed) continue; // another worker took it
+
+    if (!BILLABLE_STATUSES.includes(billingStatus.toLowerCase())) {
+      console.log(
+        `[Sync Scheduler] Skipping app ${schedule.appId}: billing status is ${billingStatus}`
+      );
+      await db
+        .update(importSchedules)
+        .set({ lastSkipReason: `Billing status is ${billingStatus}` })
+        .where(eq(importSchedules.appId, schedule.appId));
+      skipped++;
+      continue;
+    }
+
+    // Apps are scheduled on creation, before their plugin is configured
+    const missingConfiguration = await getMissingConfiguration(
+      pluginName,
+      schedule.appId
+    );
+    if (missingConfiguration) {
+      console.log(
+        `[Sync Scheduler] Skipping app ${schedule.appId}: ${missingConfiguration}`
+      );
+      await db
+        .update(importSchedules)
+        .set({ lastSkipReason: missingConfiguration })
+        .where(eq(importSchedules.appId, schedule.appId));
+      skipped++;
+      continue;
+    }
+
+    try {
+      const job = await createImportJob(schedule.appId, "scheduled");
+      await db
+        .update(importSchedules)
+        .set({ lastRunAt: now, lastJobId: job.jobId, lastSkipReason: null })
+        .where(eq(importSchedules.appId, schedule.appId));
+      console.log(
+        `[Sync Scheduler] Queued job ${job.jobId} for app ${schedule.appId}, next run at ${nextRunAt.toISOString()}`
+      );
+      queued++;
+    } catch (error) {
+      const reason =
+        error instanceof ImportAlreadyRunningError
+          ? `Import ${error.jobId} was already active`
+          : error instanceof Error
+            ? error.message
+            : "Unknown error";
+      console.log(`[Sync Scheduler] Skipping app ${schedule.appId}: ${reason}`);
+      await db
+        .update(importSchedules)
+        .set({ lastSkipReason: reason })
+        .where(eq(importSchedules.appId, schedule.appId));
+      skipped++;
+    }
+  }
+
+  return { queued, skipped };
+}
@@ -0,0 +1,183 @@
+import { db } from "../../../server/db";
+import { webhookEvents } from "../../../server/db/schema";
+import { eq, and, asc, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { parseShopcadaWebhook } from "./shopcada_webhook";
+import { processWebhookEvent, type WebhookEvent } from "./webhook_events";
+
+function readWindow(envValue: string | undefined, fallback: number): number {
+  const parsed = parseInt(envValue ?? "");
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// A product's events are applied once it has been quiet for this long
+export const WEBHOOK_DEBOUNCE_MS = readWindow(
+  process.env.WEBHOOK_DEBOUNCE_MS,
+  10 * 1000
+);
+
+// ...or once its oldest pending event has waited this long, so a product
+// that keeps changing is still updated
+export const WEBHOOK_MAX_WAIT_MS = readWindow(
+  process.env.WEBHOOK_MAX_WAIT_MS,
+  60 * 1000
+);
+
+// Products handled per pass, the rest wait for the next pass
+const PRODUCTS_PER_PASS = 50;
+
+// A claimed event still processing after this long is presumed abandoned
+export const WEBHOOK_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Picks the events of a burst that still matter, oldest first:
+ * - a delete not followed by an upsert wins on its own. Publish changes
+ *   sent after it are dropped, the product they would apply to is gone,
+ *   e.g. [delete, publish] applies only the delete.
+ * - otherwise the latest upsert, then a publish change sent after it
+ */
+function coalesceBurst(events: WebhookEvent[]): WebhookEvent[] {
+  const actions = events.map((event) => {
+    try {
+      return parseShopcadaWebhook(
+        JSON.parse(event.rawBody),
+        event.headers["x-shopcada-topic"] ??
+          event.headers["x-shopcada-event"] ??
+          null
+      )?.action;
+    } catch {
+      return undefined;
+    }
+  });
+
+  // Unreadable events are applied as they are so they fail visibly
+  if (actions.includes(undefined)) return events;
+
+  const lastDelete = actions.lastIndexOf("delete");
+  const lastUpsert = actions.lastIndexOf("upsert");
+  if (lastDelete > lastUpsert) {
+    return [events[lastDelete]];
+  }
+
+  const lastPublish = actions.lastIndexOf("publish");
+  const applied: WebhookEvent[] = [];
+  if (lastUpsert >= 0) applied.push(events[lastUpsert]);
+  if (lastPublish > lastUpsert) applied.push(events[lastPublish]);
+  return applied;
+}
+
+/**
+ * Takes every pending event of one product and applies the coalesced result.
+ * Claiming flips them to processing in one statement, so concurrent
+ * workers never split a burst.
+ */
+async function processProductBurst(
+  appId: number,
+  productId: string,
+  workerId: string
+): Promise<{ applied: number; superseded: number }> {
+  const claimed = await db
+    .update(webhookEvents)
+    .set({ status: "processing", workerId, claimedAt: new Date() })
+    .where(
+      and(
+        eq(webhookEvents.appId, appId),
+        eq(webhookEvents.productId, productId),
+        eq(webhookEvents.status, "received")
+      )
+    )
+    .returning();
+  if (claimed.length === 0) return { applied: 0, superseded: 0 };
+
+  const burst = claimed.sort(
+    (a, b) => a.dateCreated.getTime() - b.dateCreated.getTime()
+  );
+  const applied = coalesceBurst(burst);
+  const appliedIds = applied.map((event) => event.eventId);
+  const supersededIds = burst
+    .map((event) => event.eventId)
+    .filter((eventId) => !appliedIds.includes(eventId));
+  const finalEvent = applied[applied.length - 1];
+
+  if (supersededIds.length > 0 && finalEvent) {
+    await db
+      .update(webhookEvents)
+      .set({
+        status: "superseded",
+        supersededBy: finalEvent.eventId,
+        processedAt: new Date(),
+      })
+      .where(inArray(webhookEvents.eventId, supersededIds));
+    console.log(
+      `[Webhook Debounce] Coalesced ${burst.length} events for product ${productId} in app ${appId} into ${applied.length}`
+    );
+  }
+
+  for (const event of applied) {
+    await processWebhookEvent(event.eventId);
+  }
+
+  return { applied: applied.length, superseded: supersededIds.length };
+}
+
+/**
+ * Applies pending webhook events for every product whose burst is over
+ */
+export async function processDueWebhookEvents(workerId: string): Promise<{
+  applied: number;
+  superseded: number;
+}> {
+  const now = Date.now();
+  const quietSince = new Date(now - WEBHOOK_DEBOUNCE_MS);
+  const waitingSince = new Date(now - WEBHOOK_MAX_WAIT_MS);
+
+  const dueProducts = await db
+    .select({
+      appId: webhookEvents.appId,
+      productId: webhookEvents.productId,
+    })
+    .from(webhookEvents)
+    .where(eq(webhookEvents.status, "received"))
+    .groupBy(webhookEvents.appId, webhookEvents.productId)
+    .having(
+      or(
+        lte(sql`max(${webhookEvents.dateCreated})`, quietSince),
+        lte(sql`min(${webhookEvents.dateCreated})`, waitingSince)
+      )
+    )
+    .orderBy(asc(sql`min(${webhookEvents.dateCreated})`))
+    .limit(PRODUCTS_PER_PASS);
+
+  let applied = 0;
+  let superseded = 0;
+
+  for (const { appId, productId } of dueProducts) {
+    if (productId === null) continue;
+    const result = await processProductBurst(appId, productId, workerId);
+    applied += result.applied;
+    superseded += result.superseded;
+  }
+
+  return { applied, superseded };
+}
+
+/**
+ * Hands events whose claim expired back to the queue, e.g. after their
+ * worker died mid-burst, so the product is still synced
+ */
+export async function requeueStaleWebhookEvents(): Promise<number> {
+  const staleBefore = new Date(Date.now() - WEBHOOK_CLAIM_TIMEOUT_MS);
+  const requeued = await db
+    .update(webhookEvents)
+    .set({ status: "received", workerId: null, claimedAt: null })
+    .where(
+      and(
+        eq(webhookEvents.status, "processing"),
+        or(
+          lt(webhookEvents.claimedAt, staleBefore),
+          isNull(webhookEvents.claimedAt)
+        )
+      )
+    )
+    .returning({ eventId: webhookEvents.eventId });
+  return requeued.length;
+}
@@ -0,0 +1,80 @@
+import { db } from "../../../server/db";
+import { apps } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import createApp from "../conversion/conversion_layer";
+import {
+  App,
+  type WebhookRegistration,
+  type WebhookVerification,
+} from "../conversion/plugin_class";
+
+/**
+ * Thrown when the app's plugin cannot manage webhooks on its platform
+ */
+export class WebhooksNotSupportedError extends Error {
+  constructor(pluginName: string) {
+    super(`Plugin ${pluginName} does not support automatic webhook setup`);
+    this.name = "WebhooksNotSupportedError";
+  }
+}
+
+interface WebhookTarget {
+  plugin: App;
+  address: string;
+}
+
+/**
+ * Loads the app's plugin and the URL its platform should call. The public
+ * base URL comes from WORKER_PUBLIC_URL, falling back to the request origin.
+ * Returns null when the app does not exist.
+ */
+async function getWebhookTarget(
+  appId: number,
+  requestOrigin: string
+): Promise<WebhookTarget | null> {
+  const [app] = await db
+    .select({ pluginName: apps.pluginName, webhookId: apps.webhookId })
+    .from(apps)
+    .where(eq(apps.appId, appId))
+    .limit(1);
+  if (!app) return null;
+
+  if (!App.supports(app.pluginName, "webhooks")) {
+    throw new WebhooksNotSupportedError(app.pluginName);
+  }
+  const plugin = createApp(app.pluginName, String(appId));
+  await plugin.init();
+
+  const baseUrl = (process.env.WORKER_PUBLIC_URL ?? requestOrigin).replace(
+    /\/+$/,
+    ""
+  );
+  return { plugin, address: `${baseUrl}/api/webhooks/${app.webhookId}` };
+}
+
+export async function registerAppWebhooks(
+  appId: number,
+  requestOrigin: string
+): Promise<WebhookRegistration | null> {
+  const target = await getWebhookTarget(appId, requestOrigin);
+  return target ? target.plugin.registerWebhooks!(target.address) : null;
+}
+
+export async function verifyAppWebhooks(
+  appId: number,
+  requestOrigin: string
+): Promise<WebhookVerification | null> {
+  const target = await getWebhookTarget(appId, requestOrigin);
+  return target ? target.plugin.verifyWebhooks!(target.address) : null;
+}
+
+export async function removeAppWebhooks(
+  appId: number,
+  requestOrigin: string
+): Promise<string | null> {
+  const target = await getWebhookTarget(appId, requestOrigin);
+  if (!target) return null;
+
+  await target.plugin.removeWebhooks!(target.address);
+  return target.address;
+}
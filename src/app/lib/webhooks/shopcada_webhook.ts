@@ -0,0 +1,240 @@
+import { db } from "../../../server/db";
+import { apps, pluginConfigShopcadaWebhook } from "../../../server/db/schema";
+import { eq } from "drizzle-orm";
+import { createHmac, timingSafeEqual } from "crypto";
+import { ShopcadaPlugin } from "../conversion/shopcada";
+import { ProductEmbeddingService } from "../embedding/embed_products";
+
+export type ShopcadaWebhookAction = "upsert" | "delete" | "publish";
+
+/**
+ * A product change announced by Shopcada, reduced to what we act on
+ */
+export interface ShopcadaWebhookEvent {
+  topic: string;
+  action: ShopcadaWebhookAction;
+  productId: string;
+  product: unknown; // raw Shopcada product, passed to ShopcadaPlugin.updateProduct
+  isPublished: boolean;
+}
+
+export interface ShopcadaWebhookTarget {
+  appId: number;
+  secret: string;
+  topicSecrets: Record<string, string>; // by registered topic
+}
+
+// Topics are accepted in both dotted and REST-style spelling
+const TOPIC_ACTIONS: Record<string, ShopcadaWebhookAction> = {
+  "product.created": "upsert",
+  "products/create": "upsert",
+  "product.updated": "upsert",
+  "products/update": "upsert",
+  "product.deleted": "delete",
+  "products/delete": "delete",
+  "product.published": "publish",
+  "products/publish": "publish",
+  "product.unpublished": "publish",
+  "products/unpublish": "publish",
+};
+
+// Registered names of the dotted topic spellings, topic secrets use these
+const REGISTERED_TOPICS: Record<string, string> = {
+  "product.created": "products/create",
+  "product.updated": "products/update",
+  "product.deleted": "products/delete",
+  "product.published": "products/publish",
+  "product.unpublished": "products/unpublish",
+};
+
+const WEBHOOK_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Finds the app behind a webhook URL along with its signing secret.
+ * Returns null for unknown ids and apps without a Shopcada webhook secret.
+ */
+export async function getShopcadaWebhookTarget(
+  webhookId: string
+): Promise<ShopcadaWebhookTarget | null> {
+  if (!WEBHOOK_ID_PATTERN.test(webhookId)) return null;
+
+  const [target] = await db
+    .select({
+      appId: apps.appId,
+      secret: pluginConfigShopcadaWebhook.webhookSecret,
+      topicSecrets: pluginConfigShopcadaWebhook.topicSecrets,
+    })
+    .from(apps)
+    .innerJoin(
+      pluginConfigShopcadaWebhook,
+      eq(pluginConfigShopcadaWebhook.appId, apps.appId)
+    )
+    .where(eq(apps.webhookId, webhookId))
+    .limit(1);
+
+  return target ?? null;
+}
+
+/**
+ * The secret deliveries of a topic are signed with: the one Shopcada issued
+ * for that topic's webhook, else the app's webhook secret
+ */
+export function getShopcadaSigningSecret(
+  target: ShopcadaWebhookTarget,
+  topic: string | null
+): string {
+  if (!topic) return target.secret;
+  const registeredTopic = REGISTERED_TOPICS[topic] ?? topic;
+  return target.topicSecrets[registeredTopic] ?? target.secret;
+}
+
+/**
+ * Checks the HMAC-SHA256 of the raw body against the signature header,
+ * which may be hex or base64 and may carry a "sha256=" prefix
+ */
+export function verifyShopcadaSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false;
+
+  const received = Buffer.from(signature.trim().replace(/^sha256=/i, ""));
+  const digest = createHmac("sha256", secret).update(rawBody).digest();
+
+  return [digest.toString("hex"), digest.toString("base64")].some(
+    (encoding) => {
+      const expected = Buffer.from(encoding);
+      return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      );
+    }
+  );
+}
+
+/**
+ * Shopcada's id and send time for a delivery, used to dedupe retries and
+ * reject stale deliveries. The send time is only read from the signed body:
+ * the signature doesn't cover headers, so a header timestamp could be
+ * rewritten on a captured delivery. Either may be missing.
+ */
+export function getShopcadaDeliveryInfo(
+  headers: Headers,
+  body: unknown
+): { externalEventId: string | null; sentAt: Date | null } {
+  const bodyObj =
+    body && typeof body === "object" ? (body as Record<string, unknown>) : {};
+
+  const rawEventId =
+    headers.get("x-shopcada-event-id") ??
+    headers.get("x-shopcada-webhook-id") ??
+    bodyObj.event_id;
+  const externalEventId =
+    typeof rawEventId === "string" || typeof rawEventId === "number"
+      ? String(rawEventId)
+      : null;
+
+  // Unix seconds or an ISO date
+  const rawTimestamp = bodyObj.timestamp;
+  let sentAt: Date | null = null;
+  if (typeof rawTimestamp === "number" || typeof rawTimestamp === "string") {
+    const seconds = Number(rawTimestamp);
+    const parsed = isNaN(seconds)
+      ? new Date(String(rawTimestamp))
+      : new Date(seconds * 1000);
+    sentAt = isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  return { externalEventId, sentAt };
+}
+
+/**
+ * Reads the topic and product out of a webhook body. The product may be
+ * wrapped in `product` or `data`, or be the body itself.
+ * Returns null for topics we do not handle.
+ */
+export function parseShopcadaWebhook(
+  body: unknown,
+  topicHeader: string | null
+): ShopcadaWebhookEvent | null {
+  if (!body || typeof body !== "object") {
+    throw new Error("Webhook body must be a JSON object");
+  }
+
+  const bodyObj = body as Record<string, unknown>;
+  const rawTopic = topicHeader ?? bodyObj.topic ?? bodyObj.event;
+  const topic = typeof rawTopic === "string" ? rawTopic.toLowerCase() : "";
+  const action = TOPIC_ACTIONS[topic];
+  if (!action) return null;
+
+  const product = bodyObj.product ?? bodyObj.data ?? body;
+  const productObj =
+    product && typeof product === "object"
+      ? (product as Record<string, unknown>)
+      : {};
+  const rawProductId = productObj.product_id ?? productObj.id;
+  if (typeof rawProductId !== "string" && typeof rawProductId !== "number") {
+    throw new Error(`Webhook ${topic} has no product_id`);
+  }
+
+  return {
+    topic,
+    action,
+    productId: String(rawProductId),
+    product,
+    // The product's own flag wins, otherwise the topic says which way it went
+    isPublished:
+      typeof productObj.published === "boolean"
+        ? productObj.published
+        : !topic.includes("unpublish"),
+  };
+}
+
+/**
+ * Applies a webhook to the index and returns the outcome message.
+ * Throws when the change could not be applied.
+ */
+export async function processShopcadaWebhook(
+  appId: number,
+  event: ShopcadaWebhookEvent
+): Promise<string> {
+  const embeddingService = new ProductEmbeddingService();
+
+  let success: boolean;
+  let message: string;
+  switch (event.action) {
+    case "upsert": {
+      const plugin = new ShopcadaPlugin(String(appId));
+      const product = await plugin.updateProduct(event.product);
+      const result = await embeddingService.upsertSingleProduct(product, appId);
+      success = result.status === 200;
+      message = result.message;
+      break;
+    }
+    case "delete":
+      ({ success, message } = await embeddingService.deleteProduct(
+        event.productId,
+        appId
+      ));
+      break;
+    case "publish":
+      ({ success, message } =
+        await embeddingService.setPublishedStatusWithFetch(
+          event.productId,
+          appId,
+          event.isPublished
+        ));
+      break;
+  }
+
+  if (!success) {
+    throw new Error(message);
+  }
+
+  console.log(
+    `[Shopcada Webhook] ${event.topic} for product ${event.productId} in app ${appId}: ${message}`
+  );
+  return message;
+}
@@ -0,0 +1,294 @@
+import { db } from "../../../server/db";
+import { webhookEvents } from "../../../server/db/schema";
+import { eq, and, asc, desc, gte, inArray, lte } from "drizzle-orm";
+import { sha256 } from "../sha256";
+import {
+  parseShopcadaWebhook,
+  processShopcadaWebhook,
+} from "./shopcada_webhook";
+
+export type WebhookEventStatus =
+  | "received" // accepted, waiting to be applied
+  | "processing"
+  | "processed"
+  | "failed"
+  | "ignored" // topic we do not handle
+  | "rejected" // bad signature, body or timestamp
+  | "duplicate" // already received, not applied again
+  | "superseded"; // a later event for the same product was applied instead
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+export interface InboundWebhookEvent {
+  appId: number;
+  headers: Headers;
+  rawBody: string;
+  signatureValid: boolean;
+  externalEventId: string | null;
+  sentAt: Date | null;
+  topic: string | null;
+  productId: string | null;
+  status: Extract<WebhookEventStatus, "received" | "ignored" | "rejected">;
+  error?: string;
+}
+
+// Deliveries whose signed send time is this far off our clock are rejected as stale
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Accepted events, the only ones that can be processed again. Events being
+// processed belong to a worker until it records their outcome.
+export const REPLAYABLE_WEBHOOK_STATUSES: WebhookEventStatus[] = [
+  "received",
+  "processed",
+  "failed",
+];
+
+// Range replays stop after this many events
+export const MAX_REPLAY_EVENTS = 1000;
+
+// Credentials are never written to the log
+const OMITTED_HEADERS = ["authorization", "cookie"];
+
+const EVENT_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks that an event id is a well-formed UUID before it reaches Postgres
+ */
+export function isValidWebhookEventId(eventId: string): boolean {
+  return EVENT_ID_PATTERN.test(eventId);
+}
+
+export function isWithinTolerance(sentAt: Date, now = new Date()): boolean {
+  return (
+    Math.abs(now.getTime() - sentAt.getTime()) <=
+    WEBHOOK_TOLERANCE_SECONDS * 1000
+  );
+}
+
+function serializeHeaders(headers: Headers): Record<string, string> {
+  const serialized: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (!OMITTED_HEADERS.includes(key)) serialized[key] = value;
+  });
+  return serialized;
+}
+
+/**
+ * Identifies a delivery across retries: Shopcada's event id when sent,
+ * otherwise the timestamp plus body. Without either it cannot be deduped.
+ */
+async function getDedupeKey(
+  event: InboundWebhookEvent
+): Promise<string | null> {
+  if (event.externalEventId) return `id:${event.externalEventId}`;
+  if (event.sentAt) {
+    return `ts:${await sha256(`${event.sentAt.getTime()}.${event.rawBody}`)}`;
+  }
+  return null;
+}
+
+/**
+ * Stores an inbound webhook. Accepted events that were already received are
+ * stored as duplicates of the first one, which the caller must not apply.
+ */
+export async function recordWebhookEvent(
+  event: InboundWebhookEvent
+): Promise<WebhookEvent> {
+  const values = {
+    appId: event.appId,
+    externalEventId: event.externalEventId,
+    topic: event.topic,
+    productId: event.productId,
+    headers: serializeHeaders(event.headers),
+    rawBody: event.rawBody,
+    signatureValid: event.signatureValid,
+    sentAt: event.sentAt,
+    status: event.status,
+    error: event.error ?? null,
+  };
+
+  const dedupeKey =
+    event.status === "received" ? await getDedupeKey(event) : null;
+
+  const [recorded] = await db
+    .insert(webhookEvents)
+    .values({ ...values, dedupeKey })
+    .onConflictDoNothing()
+    .returning();
+  if (recorded) return recorded;
+
+  const original = await db.query.webhookEvents.findFirst({
+    where: and(
+      eq(webhookEvents.appId, event.appId),
+      eq(webhookEvents.dedupeKey, dedupeKey ?? "")
+    ),
+    columns: { eventId: true },
+  });
+
+  const [duplicate] = await db
+    .insert(webhookEvents)
+    .values({
+      ...values,
+      status: "duplicate",
+      duplicateOf: original?.eventId ?? null,
+      error: "Already received",
+    })
+    .returning();
+
+  if (!duplicate) {
+    throw new Error(`Failed to record webhook event for app ${event.appId}`);
+  }
+  return duplicate;
+}
+
+/**
+ * Applies an event its worker claimed (status processing) and records the
+ * outcome. Used by the workers once a product's burst has settled. Never throws.
+ */
+export async function processWebhookEvent(
+  eventId: string
+): Promise<WebhookEventStatus | null> {
+  const [event] = await db
+    .update(webhookEvents)
+    .set({ error: null, claimedAt: new Date() })
+    .where(
+      and(
+        eq(webhookEvents.eventId, eventId),
+        eq(webhookEvents.status, "processing")
+      )
+    )
+    .returning();
+  if (!event) return null;
+
+  let status: WebhookEventStatus;
+  let result: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const parsed = parseShopcadaWebhook(
+      JSON.parse(event.rawBody),
+      event.headers["x-shopcada-topic"] ??
+        event.headers["x-shopcada-event"] ??
+        null
+    );
+    if (parsed) {
+      result = await processShopcadaWebhook(event.appId, parsed);
+      status = "processed";
+    } else {
+      status = "ignored";
+    }
+  } catch (processError) {
+    console.error(
+      `[Webhook Events] Failed to process event ${eventId} for app ${event.appId}:`,
+      processError
+    );
+    status = "failed";
+    error =
+      processError instanceof Error ? processError.message : "Unknown error";
+  }
+
+  await db
+    .update(webhookEvents)
+    .set({
+      status,
+      result,
+      error,
+      attempts: event.attempts + 1,
+      processedAt: new Date(),
+    })
+    .where(eq(webhookEvents.eventId, eventId))
+    .catch((updateError) => {
+      console.error(
+        `[Webhook Events] Failed to record outcome of event ${eventId}:`,
+        updateError
+      );
+    });
+
+  return status;
+}
+
+/**
+ * Marks accepted events received again, so the workers apply them with their
+ * product's next settled burst. Returns the ids that were queued.
+ */
+export async function replayWebhookEvents(
+  appId: number,
+  eventIds: string[]
+): Promise<string[]> {
+  if (eventIds.length === 0) return [];
+
+  const queued = await db
+    .update(webhookEvents)
+    .set({
+      status: "received",
+      error: null,
+      workerId: null,
+      claimedAt: null,
+      processedAt: null,
+    })
+    .where(
+      and(
+        eq(webhookEvents.appId, appId),
+        inArray(webhookEvents.eventId, eventIds),
+        inArray(webhookEvents.status, REPLAYABLE_WEBHOOK_STATUSES)
+      )
+    )
+    .returning({ eventId: webhookEvents.eventId });
+  return queued.map((event) => event.eventId);
+}
+
+export async function getWebhookEvent(
+  appId: number,
+  eventId: string
+): Promise<WebhookEvent | null> {
+  const event = await db.query.webhookEvents.findFirst({
+    where: and(
+      eq(webhookEvents.appId, appId),
+      eq(webhookEvents.eventId, eventId)
+    ),
+  });
+  return event ?? null;
+}
+
+export async function listWebhookEvents(
+  appId: number,
+  options: { status?: WebhookEventStatus; limit?: number } = {}
+): Promise<WebhookEvent[]> {
+  return db.query.webhookEvents.findMany({
+    where: and(
+      eq(webhookEvents.appId, appId),
+      options.status ? eq(webhookEvents.status, options.status) : undefined
+    ),
+    orderBy: desc(webhookEvents.dateCreated),
+    limit: options.limit ?? 50,
+  });
+}
+
+/**
+ * Ids of the accepted events an app received in a time range, oldest first
+ */
+export async function findReplayableWebhookEvents(
+  appId: number,
+  from: Date,
+  to: Date,
+  status?: WebhookEventStatus
+): Promise<string[]> {
+  const events = await db
+    .select({ eventId: webhookEvents.eventId })
+    .from(webhookEvents)
+    .where(
+      and(
+        eq(webhookEvents.appId, appId),
+        gte(webhookEvents.dateCreated, from),
+        lte(webhookEvents.dateCreated, to),
+        status
+          ? eq(webhookEvents.status, status)
+          : inArray(webhookEvents.status, REPLAYABLE_WEBHOOK_STATUSES)
+      )
+    )
+    .orderBy(asc(webhookEvents.dateCreated))
+    .limit(MAX_REPLAY_EVENTS);
+
+  return events.map((event) => event.eventId);
+}
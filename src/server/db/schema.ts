@@ -10,9 +10,24 @@ import {
   text,
   boolean,
   index,
+  uniqueIndex,
   uuid,
+  jsonb,
+  numeric,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
+import type {
+  ImportBatchSummary,
+  ImportProgressEvent,
+  ProcessingResult,
+} from "../../app/lib/import_job/import_job";
+import type {
+  Product,
+  ProductVariant,
+} from "../../app/lib/conversion/plugin_class";
+import type { ImportCallbackPayload } from "../../app/lib/callbacks/callbacks";
+import type { FeedColumnMapping, FeedRowError } from "../../app/lib/feed/feed";
 
 /**
  * This is the multi-project schema feature of Drizzle ORM. Use the same
@@ -42,6 +57,8 @@ export const apps = createTable("app", {
     .notNull()
     .default("unknown"),
   webhookId: uuid("webhook_id").notNull().defaultRandom(),
+  // Index each colourway of a product as its own record
+  indexVariants: boolean("index_variants").notNull().default(false),
 });
 
 // API_KEYS table
@@ -76,6 +93,7 @@ export const pluginConfigShopcada = createTable("plugin_config_shopcada", {
     .references(() => apps.appId),
   apiKey: varchar("api_key", { length: 255 }).notNull(),
   apiHostname: varchar("api_hostname", { length: 255 }).notNull(),
+  pageSize: integer("page_size").notNull().default(20),
 });
 
 export const pluginConfigShopcadaWebhook = createTable(
@@ -85,9 +103,93 @@ export const pluginConfigShopcadaWebhook = createTable(
       .primaryKey()
       .references(() => apps.appId),
     webhookSecret: varchar("webhook_secret", { length: 255 }).notNull(),
+    // Set when the webhooks were registered automatically
+    webhookIds: jsonb("webhook_ids").$type<string[]>().notNull().default([]),
+    // Secrets Shopcada issued for single topics instead of webhookSecret
+    topicSecrets: jsonb("topic_secrets")
+      .$type<Record<string, string>>()
+      .notNull()
+      .default({}),
+    address: varchar("address", { length: 2048 }),
+    dateRegistered: timestamp("date_registered", { withTimezone: true }),
+    lastVerifiedAt: timestamp("last_verified_at", { withTimezone: true }),
+  }
+);
+
+// PLUGIN_CONFIG_SHOPIFY table
+export const pluginConfigShopify = createTable("plugin_config_shopify", {
+  appId: integer("app_id")
+    .primaryKey()
+    .references(() => apps.appId),
+  shopDomain: varchar("shop_domain", { length: 255 }).notNull(), // e.g. my-store.myshopify.com
+  accessToken: varchar("access_token", { length: 255 }).notNull(), // Admin API access token
+  apiVersion: varchar("api_version", { length: 20 })
+    .notNull()
+    .default("2025-01"),
+});
+
+// PLUGIN_CONFIG_WOOCOMMERCE table
+export const pluginConfigWooCommerce = createTable(
+  "plugin_config_woocommerce",
+  {
+    appId: integer("app_id")
+      .primaryKey()
+      .references(() => apps.appId),
+    storeUrl: varchar("store_url", { length: 255 }).notNull(), // e.g. https://shop.example.com
+    consumerKey: varchar("consumer_key", { length: 255 }).notNull(),
+    consumerSecret: varchar("consumer_secret", { length: 255 }).notNull(),
   }
 );
 
+// PLUGIN_CONFIG_GOOGLE_MERCHANT table
+export const pluginConfigGoogleMerchant = createTable(
+  "plugin_config_google_merchant",
+  {
+    appId: integer("app_id")
+      .primaryKey()
+      .references(() => apps.appId),
+    feedUrl: varchar("feed_url", { length: 2048 }).notNull(), // RSS 2.0 or Atom feed
+    // Validators of the last fetched feed, sent back for a conditional GET
+    etag: varchar("etag", { length: 255 }),
+    lastModified: varchar("last_modified", { length: 255 }),
+    dateFetched: timestamp("date_fetched", { withTimezone: true }),
+  }
+);
+
+// PLUGIN_CONFIG_FEED table
+export const pluginConfigFeed = createTable("plugin_config_feed", {
+  appId: integer("app_id")
+    .primaryKey()
+    .references(() => apps.appId),
+  columnMapping: jsonb("column_mapping").$type<FeedColumnMapping>().notNull(),
+  dateUpdated: timestamp("date_updated", { withTimezone: true }).$onUpdate(
+    () => new Date()
+  ),
+});
+
+// FEED_UPLOADS table (validated product feeds, the latest one is imported)
+export const feedUploads = createTable(
+  "feed_upload",
+  {
+    uploadId: uuid("upload_id").primaryKey().defaultRandom(),
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.appId),
+    format: varchar("format", { length: 10 }).notNull(), // csv | json | ndjson
+    fileName: varchar("file_name", { length: 255 }),
+    totalRows: integer("total_rows").notNull(),
+    validRows: integer("valid_rows").notNull(),
+    errorCount: integer("error_count").notNull(),
+    errors: jsonb("errors").$type<FeedRowError[]>().notNull().default([]),
+    products: jsonb("products").$type<Product[]>().notNull(),
+    jobId: uuid("job_id"),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [index("feed_upload_app_idx").on(table.appId, table.dateCreated)]
+);
+
 // VECTORS table
 export const vectors = createTable(
   "vector",
@@ -107,22 +209,271 @@ export const vectors = createTable(
       () => new Date()
     ),
     isPublished: boolean("is_published").notNull().default(false),
+    // Set on colourway records, the product they were expanded from
+    parentProductId: varchar("parent_product_id", { length: 255 }),
+    // Structured product fields, see ProductAttributes
+    price: numeric("price", { precision: 12, scale: 2, mode: "number" }),
+    currency: varchar("currency", { length: 3 }),
+    brand: varchar("brand", { length: 255 }),
+    productUrl: varchar("product_url", { length: 2048 }),
+    categories: jsonb("categories").$type<string[]>().notNull().default([]),
+    colors: jsonb("colors").$type<string[]>().notNull().default([]),
+    variants: jsonb("variants").$type<ProductVariant[]>().notNull().default([]),
   },
   (table) => [
     // Using a composite primary key with appId and productId
     index("vector_pk_idx").on(table.appId, table.productId),
     index("vector_app_idx").on(table.appId),
+    index("vector_parent_idx").on(table.appId, table.parentProductId),
     index("vector_full_text_idx").on(table.fullText),
     index("vector_image_urls_idx").on(table.imageUrls),
   ]
 );
 
+// IMPORT_JOBS table
+export const importJobs = createTable(
+  "import_job",
+  {
+    jobId: uuid("job_id").primaryKey().defaultRandom(),
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.appId),
+    status: varchar("status", { length: 50 }).notNull().default("queued"), // queued | running | completed | failed | interrupted | cancelled
+    phase: varchar("phase", { length: 50 }), // fetching | describing | upserting
+    totalProducts: integer("total_products").notNull().default(0),
+    processedProducts: integer("processed_products").notNull().default(0),
+    failedProducts: integer("failed_products").notNull().default(0),
+    totalBatches: integer("total_batches"), // null until the catalog has been fully fetched
+    completedBatches: integer("completed_batches").notNull().default(0),
+    batches: jsonb("batches")
+      .$type<ImportBatchSummary[]>()
+      .notNull()
+      .default([]),
+    result: jsonb("result").$type<ProcessingResult>(),
+    error: text("error"),
+    cancelRequestedAt: timestamp("cancel_requested_at", {
+      withTimezone: true,
+    }),
+    // Queue bookkeeping: which worker holds the job and when it last checked in
+    workerId: varchar("worker_id", { length: 255 }),
+    attempts: integer("attempts").notNull().default(0),
+    heartbeatAt: timestamp("heartbeat_at", { withTimezone: true }),
+    eventSequence: integer("event_sequence").notNull().default(0), // last sequence handed to an import_job_event
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    dateUpdated: timestamp("date_updated", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+    trigger: varchar("trigger", { length: 50 }).notNull().default("manual"), // manual | scheduled
+  },
+  (table) => [
+    index("import_job_app_idx").on(table.appId),
+    index("import_job_created_idx").on(table.dateCreated),
+    index("import_job_status_idx").on(table.status, table.dateCreated),
+    // At most one active import per app, so runs never race on the same namespace
+    uniqueIndex("import_job_active_app_idx")
+      .on(table.appId)
+      .where(sql`status in ('queued', 'running')`),
+  ]
+);
+
+// IMPORT_JOB_EVENTS table
+export const importJobEvents = createTable(
+  "import_job_event",
+  {
+    eventId: integer("event_id").primaryKey().generatedByDefaultAsIdentity(),
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => importJobs.jobId, { onDelete: "cascade" }),
+    // Per-job position, assigned under the job's row lock so it follows commit order
+    sequence: integer("sequence").notNull(),
+    type: varchar("type", { length: 50 }).notNull(),
+    data: jsonb("data").$type<ImportProgressEvent>().notNull(),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("import_job_event_job_idx").on(table.jobId, table.sequence),
+  ]
+);
+
+// IMPORT_JOB_PAGES table (products fetched so far, used to resume a job)
+export const importJobPages = createTable(
+  "import_job_page",
+  {
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => importJobs.jobId, { onDelete: "cascade" }),
+    page: integer("page").notNull(),
+    products: jsonb("products").$type<Product[]>().notNull(),
+    pageSize: integer("page_size"), // set by plugins whose page size is configurable
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.jobId, table.page] })]
+);
+
+// IMPORT_SCHEDULES table (automatic catalog re-sync per app)
+export const importSchedules = createTable(
+  "import_schedule",
+  {
+    appId: integer("app_id")
+      .primaryKey()
+      .references(() => apps.appId),
+    enabled: boolean("enabled").notNull().default(true),
+    intervalMinutes: integer("interval_minutes"), // null uses the plan default
+    lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+    nextRunAt: timestamp("next_run_at", { withTimezone: true }).notNull(),
+    lastJobId: uuid("last_job_id"),
+    lastSkipReason: text("last_skip_reason"),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    dateUpdated: timestamp("date_updated", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [index("import_schedule_next_run_idx").on(table.nextRunAt)]
+);
+
+// APP_USAGE table (metered usage per app and calendar month)
+export const appUsage = createTable(
+  "app_usage",
+  {
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.appId),
+    period: varchar("period", { length: 7 }).notNull(), // YYYY-MM (UTC)
+    visionDescriptions: integer("vision_descriptions").notNull().default(0),
+    dateUpdated: timestamp("date_updated", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [primaryKey({ columns: [table.appId, table.period] })]
+);
+
+// APP_CALLBACKS table (URLs notified when an import finishes)
+export const appCallbacks = createTable(
+  "app_callback",
+  {
+    callbackId: integer("callback_id")
+      .primaryKey()
+      .generatedByDefaultAsIdentity(),
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.appId),
+    url: varchar("url", { length: 2048 }).notNull(),
+    secret: varchar("secret", { length: 255 }).notNull(), // HMAC-SHA256 signing key
+    isActive: boolean("is_active").default(true).notNull(),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    dateUpdated: timestamp("date_updated", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [index("app_callback_app_idx").on(table.appId)]
+);
+
+// CALLBACK_DELIVERIES table (delivery log, also the retry queue)
+export const callbackDeliveries = createTable(
+  "callback_delivery",
+  {
+    deliveryId: uuid("delivery_id").primaryKey().defaultRandom(),
+    callbackId: integer("callback_id")
+      .notNull()
+      .references(() => appCallbacks.callbackId, { onDelete: "cascade" }),
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => importJobs.jobId, { onDelete: "cascade" }),
+    event: varchar("event", { length: 50 }).notNull(),
+    payload: jsonb("payload").$type<ImportCallbackPayload>().notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"), // pending | delivered | failed
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("callback_delivery_due_idx").on(table.status, table.nextAttemptAt),
+    index("callback_delivery_callback_idx").on(
+      table.callbackId,
+      table.dateCreated
+    ),
+    index("callback_delivery_job_idx").on(table.jobId),
+  ]
+);
+
+// WEBHOOK_EVENTS table (every inbound webhook for a known app, with its outcome)
+export const webhookEvents = createTable(
+  "webhook_event",
+  {
+    eventId: uuid("event_id").primaryKey().defaultRandom(),
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.appId),
+    source: varchar("source", { length: 50 }).notNull().default("shopcada"),
+    externalEventId: varchar("external_event_id", { length: 255 }),
+    dedupeKey: varchar("dedupe_key", { length: 255 }), // null when the event cannot be deduped
+    duplicateOf: uuid("duplicate_of"),
+    supersededBy: uuid("superseded_by"), // later event of the same burst that was applied instead
+    topic: varchar("topic", { length: 100 }),
+    productId: varchar("product_id", { length: 255 }),
+    headers: jsonb("headers").$type<Record<string, string>>().notNull(),
+    rawBody: text("raw_body").notNull(),
+    signatureValid: boolean("signature_valid").notNull(),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    status: varchar("status", { length: 20 }).notNull().default("received"),
+    error: text("error"),
+    result: text("result"),
+    attempts: integer("attempts").notNull().default(0),
+    workerId: varchar("worker_id", { length: 255 }), // worker that claimed the event for processing
+    claimedAt: timestamp("claimed_at", { withTimezone: true }), // expired claims are handed back
+    dateCreated: timestamp("date_created", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("webhook_event_app_idx").on(table.appId, table.dateCreated),
+    index("webhook_event_pending_idx")
+      .on(table.appId, table.productId, table.dateCreated)
+      .where(sql`status = 'received'`),
+    // A delivery Shopcada already sent is recorded as a duplicate, not applied again
+    uniqueIndex("webhook_event_dedupe_idx")
+      .on(table.appId, table.dedupeKey)
+      .where(sql`dedupe_key is not null`),
+  ]
+);
+
 // Define relationships
 export const appsRelations = relations(apps, ({ many }) => ({
   apiKeys: many(apiKeys),
   pluginConfigShopcada: many(pluginConfigShopcada),
   pluginConfigShopcadaWebhook: many(pluginConfigShopcadaWebhook),
+  pluginConfigShopify: many(pluginConfigShopify),
+  pluginConfigWooCommerce: many(pluginConfigWooCommerce),
+  pluginConfigGoogleMerchant: many(pluginConfigGoogleMerchant),
+  pluginConfigFeed: many(pluginConfigFeed),
+  feedUploads: many(feedUploads),
   vectors: many(vectors),
+  importJobs: many(importJobs),
+  usage: many(appUsage),
+  importSchedule: many(importSchedules),
+  callbacks: many(appCallbacks),
+  webhookEvents: many(webhookEvents),
 }));
 
 export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
@@ -152,9 +503,131 @@ export const pluginConfigShopcadaWebhookRelations = relations(
   })
 );
 
+export const pluginConfigShopifyRelations = relations(
+  pluginConfigShopify,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [pluginConfigShopify.appId],
+      references: [apps.appId],
+    }),
+  })
+);
+
+export const pluginConfigWooCommerceRelations = relations(
+  pluginConfigWooCommerce,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [pluginConfigWooCommerce.appId],
+      references: [apps.appId],
+    }),
+  })
+);
+
+export const pluginConfigGoogleMerchantRelations = relations(
+  pluginConfigGoogleMerchant,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [pluginConfigGoogleMerchant.appId],
+      references: [apps.appId],
+    }),
+  })
+);
+
+export const pluginConfigFeedRelations = relations(
+  pluginConfigFeed,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [pluginConfigFeed.appId],
+      references: [apps.appId],
+    }),
+  })
+);
+
+export const feedUploadsRelations = relations(feedUploads, ({ one }) => ({
+  app: one(apps, {
+    fields: [feedUploads.appId],
+    references: [apps.appId],
+  }),
+}));
+
 export const vectorsRelations = relations(vectors, ({ one }) => ({
   app: one(apps, {
     fields: [vectors.appId],
     references: [apps.appId],
   }),
 }));
+
+export const importJobsRelations = relations(importJobs, ({ one, many }) => ({
+  app: one(apps, {
+    fields: [importJobs.appId],
+    references: [apps.appId],
+  }),
+  events: many(importJobEvents),
+  pages: many(importJobPages),
+}));
+
+export const importJobEventsRelations = relations(
+  importJobEvents,
+  ({ one }) => ({
+    job: one(importJobs, {
+      fields: [importJobEvents.jobId],
+      references: [importJobs.jobId],
+    }),
+  })
+);
+
+export const importJobPagesRelations = relations(importJobPages, ({ one }) => ({
+  job: one(importJobs, {
+    fields: [importJobPages.jobId],
+    references: [importJobs.jobId],
+  }),
+}));
+
+export const appUsageRelations = relations(appUsage, ({ one }) => ({
+  app: one(apps, {
+    fields: [appUsage.appId],
+    references: [apps.appId],
+  }),
+}));
+
+export const importSchedulesRelations = relations(
+  importSchedules,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [importSchedules.appId],
+      references: [apps.appId],
+    }),
+  })
+);
+
+export const appCallbacksRelations = relations(
+  appCallbacks,
+  ({ one, many }) => ({
+    app: one(apps, {
+      fields: [appCallbacks.appId],
+      references: [apps.appId],
+    }),
+    deliveries: many(callbackDeliveries),
+  })
+);
+
+export const callbackDeliveriesRelations = relations(
+  callbackDeliveries,
+  ({ one }) => ({
+    callback: one(appCallbacks, {
+      fields: [callbackDeliveries.callbackId],
+      references: [appCallbacks.callbackId],
+    }),
+    job: one(importJobs, {
+      fields: [callbackDeliveries.jobId],
+      references: [importJobs.jobId],
+    }),
+  })
+);
+
+export const webhookEventsRelations = relations(webhookEvents, ({ one }) => ({
+  app: one(apps, {
+    fields: [webhookEvents.appId],
+    references: [apps.appId],
+  }),
+}));